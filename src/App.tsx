@@ -8,7 +8,14 @@ import Auth from "./pages/Auth";
 import BarberRegistration from "./pages/BarberRegistration";
 import CustomerDashboard from "./pages/CustomerDashboard";
 import BarberDashboard from "./pages/BarberDashboard";
+import AdminDashboard from "./pages/AdminDashboard";
+import AccountSettings from "./pages/AccountSettings";
+import ShopDetails from "./pages/ShopDetails";
+import ResetPassword from "./pages/ResetPassword";
 import NotFound from "./pages/NotFound";
+import AuthProvider from "./components/AuthProvider";
+import RequireAuth from "./components/RequireAuth";
+import RequireRole from "./components/RequireRole";
 
 const queryClient = new QueryClient();
 
@@ -17,17 +24,35 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/barber-registration" element={<BarberRegistration />} />
-          <Route path="/customer-dashboard" element={<CustomerDashboard />} />
-          <Route path="/barber-dashboard" element={<BarberDashboard />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <AuthProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/auth/reset" element={<ResetPassword />} />
+            <Route path="/barber-registration" element={<BarberRegistration />} />
+            <Route path="/shops/:shopId" element={<ShopDetails />} />
+            <Route
+              path="/customer-dashboard"
+              element={<RequireRole role="customer"><CustomerDashboard /></RequireRole>}
+            />
+            <Route
+              path="/barber-dashboard"
+              element={<RequireRole role="barber"><BarberDashboard /></RequireRole>}
+            />
+            <Route
+              path="/account"
+              element={<RequireAuth><AccountSettings /></RequireAuth>}
+            />
+            <Route
+              path="/admin"
+              element={<RequireRole role="admin"><AdminDashboard /></RequireRole>}
+            />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
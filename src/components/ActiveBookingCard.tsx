@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Bell, Clock, MapPin, Scissors } from "lucide-react";
+import { cn } from "@/lib/utils";
+import CancelBookingDialog from "@/components/CancelBookingDialog";
+import type { ActiveBooking } from "@/hooks/use-my-active-bookings";
+
+interface ActiveBookingCardProps {
+  booking: ActiveBooking;
+}
+
+// estimated_wait_time is recomputed together with updated_at, so the
+// countdown is anchored to the moment the estimate was last written.
+const getDeadline = (booking: ActiveBooking) => {
+  const anchor = new Date(booking.updated_at ?? booking.joined_at ?? Date.now()).getTime();
+  return anchor + (booking.estimated_wait_time ?? 0) * 60000;
+};
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const ActiveBookingCard = ({ booking }: ActiveBookingCardProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (booking.status !== 'waiting') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [booking.status]);
+
+  const isTurn = booking.status === 'in_progress';
+  const isNext = booking.status === 'waiting' && booking.queue_position === 1;
+  const totalMs = (booking.estimated_wait_time ?? 0) * 60000;
+  const remainingMs = Math.max(0, getDeadline(booking) - now);
+  const progress = totalMs > 0 ? 100 - (remainingMs / totalMs) * 100 : 100;
+
+  return (
+    <Card
+      className={cn(
+        "shadow-medium bg-gradient-card border-0 transition-all duration-500",
+        isNext && "ring-2 ring-warning",
+        isTurn && "ring-2 ring-success"
+      )}
+    >
+      <CardContent className="p-6 space-y-4">
+        {(isNext || isTurn) && (
+          <div
+            className={cn(
+              "flex items-center gap-3 p-4 rounded-lg animate-in fade-in slide-in-from-top-2 duration-500",
+              isTurn ? "bg-success/10 text-success" : "bg-warning/10 text-warning"
+            )}
+          >
+            {isTurn ? <Scissors className="h-6 w-6" /> : <Bell className="h-6 w-6 animate-pulse" />}
+            <div>
+              <p className="text-lg font-bold">{isTurn ? "It's your turn!" : "You're next!"}</p>
+              <p className="text-sm opacity-80">
+                {isTurn
+                  ? "Your barber is ready for you."
+                  : "Please head to the shop and be ready."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-start justify-between">
+          <div className="space-y-1">
+            <h3 className="font-semibold text-lg">{booking.shop.shop_name}</h3>
+            <p className="text-muted-foreground flex items-center gap-1 text-sm">
+              <MapPin className="h-3 w-3" />
+              {booking.shop.shop_address}
+            </p>
+            <p className="text-sm">
+              <span className="font-medium">{booking.service_name}</span>
+              {booking.service_price != null && (
+                <>
+                  <span className="text-muted-foreground"> • </span>
+                  <span className="font-medium">${booking.service_price}</span>
+                </>
+              )}
+            </p>
+          </div>
+          {booking.status === 'waiting' && booking.queue_position && (
+            <div className="text-center">
+              <p className="text-xs text-muted-foreground">Position</p>
+              <p
+                key={booking.queue_position}
+                className="text-4xl font-bold text-primary animate-in zoom-in-50 fade-in duration-500"
+              >
+                #{booking.queue_position}
+              </p>
+            </div>
+          )}
+          {isTurn && (
+            <Badge variant="success">in progress</Badge>
+          )}
+        </div>
+
+        {booking.status === 'waiting' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-warning" />
+                Estimated wait
+              </span>
+              <span className="font-mono font-semibold">
+                {remainingMs > 0 ? formatCountdown(remainingMs) : "Any moment now"}
+              </span>
+            </div>
+            <Progress value={progress} className="h-2" />
+            <div className="flex justify-end pt-2">
+              <CancelBookingDialog bookingId={booking.id} shopName={booking.shop.shop_name} />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveBookingCard;
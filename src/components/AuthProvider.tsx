@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, type AuthState } from "@/hooks/use-auth";
+import type { Tables } from "@/integrations/supabase/types";
+
+// supabase-js persists the session under "sb-<project-ref>-auth-token"
+const isAuthStorageKey = (key: string | null) => !!key && key.startsWith('sb-') && key.endsWith('-auth-token');
+
+/**
+ * Owns the Supabase session for the whole app. Listens to onAuthStateChange
+ * (sign-in, sign-out, token refresh) and to localStorage changes from other
+ * tabs, and loads the signed-in user's profile alongside the session.
+ */
+const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Tables<"profiles"> | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  // User whose profile is in `profile`, to tell "not loaded yet" from "no profile"
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  const userId = session?.user.id;
+
+  const loadProfile = useCallback(async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('user_id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setProfile(data);
+      setError(null);
+    } catch (error) {
+      console.error("Error fetching profile:", error);
+      setError(error instanceof Error ? error : new Error("Failed to load your profile"));
+    } finally {
+      setProfileUserId(id);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Set up the listener before reading the stored session so no event is missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setSessionLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data: { session }, error }) => {
+      if (error) {
+        console.error("Error restoring session:", error);
+        setError(error);
+      }
+      setSession(session);
+      setSessionLoading(false);
+    });
+
+    // Another tab signed in or out: re-read the session it left in storage
+    const handleStorage = (event: StorageEvent) => {
+      if (!isAuthStorageKey(event.key)) return;
+
+      supabase.auth.getSession().then(({ data: { session } }) => setSession(session));
+    };
+
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      subscription.unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  // Token refreshes keep the same user, so the profile is only reloaded when the user changes
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      setProfileUserId(null);
+      return;
+    }
+
+    loadProfile(userId);
+  }, [userId, loadProfile]);
+
+  const refreshProfile = useCallback(async () => {
+    if (userId) await loadProfile(userId);
+  }, [userId, loadProfile]);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  }, []);
+
+  const value = useMemo<AuthState>(() => ({
+    session,
+    user: session?.user ?? null,
+    profile,
+    role: profile?.role ?? null,
+    loading: sessionLoading || (!!userId && profileUserId !== userId),
+    error,
+    refreshProfile,
+    signOut,
+  }), [session, profile, sessionLoading, userId, profileUserId, error, refreshProfile, signOut]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2, MessageSquare, Pencil, Reply } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useShopReviews, type ShopReview } from "@/hooks/use-shop-reviews";
+import {
+  respondToReview,
+  reviewResponseSchema,
+  ReviewError,
+  reviewTagLabel,
+  updateReviewResponse,
+  type ReviewResponse,
+  type ReviewResponseValues,
+} from "@/lib/reviews";
+import StarRating from "@/components/StarRating";
+
+interface BarberReviewsPanelProps {
+  shopId: string;
+  responderId: string;
+}
+
+interface ResponseFormProps {
+  review: ShopReview;
+  responderId: string;
+  onSaved: (response: ReviewResponse) => void;
+  onCancel: () => void;
+}
+
+const ResponseForm = ({ review, responderId, onSaved, onCancel }: ResponseFormProps) => {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<ReviewResponseValues>({
+    resolver: zodResolver(reviewResponseSchema),
+    defaultValues: { responseText: review.response?.response_text ?? "" },
+  });
+
+  const handleSubmit = async (values: ReviewResponseValues) => {
+    setSaving(true);
+
+    try {
+      const saved = review.response
+        ? await updateReviewResponse(review.response.id, values)
+        : await respondToReview(review.id, responderId, values);
+
+      toast({
+        title: review.response ? "Reply updated" : "Reply posted",
+        description: "Your reply is shown under the review on your shop page.",
+      });
+      onSaved(saved);
+    } catch (error) {
+      const { title, description } = error instanceof ReviewError
+        ? error
+        : new ReviewError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-2">
+        <FormField
+          control={form.control}
+          name="responseText"
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <Textarea placeholder={`Reply to ${review.reviewer_name}`} rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {review.response ? "Save Reply" : "Post Reply"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+/** The shop's reviews with the owner's public replies, for the barber dashboard. */
+const BarberReviewsPanel = ({ shopId, responderId }: BarberReviewsPanelProps) => {
+  const { reviews, hasMore, loading, loadMore, applyResponse } = useShopReviews(shopId);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [needsReplyOnly, setNeedsReplyOnly] = useState(false);
+
+  const unanswered = reviews.filter(r => !r.response).length;
+  const visible = needsReplyOnly ? reviews.filter(r => !r.response) : reviews;
+
+  const handleSaved = (response: ReviewResponse) => {
+    applyResponse(response);
+    setReplyingTo(null);
+  };
+
+  if (reviews.length === 0 && !loading) {
+    return (
+      <Card className="p-8 text-center shadow-soft bg-gradient-card border-0">
+        <CardContent className="p-0">
+          <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No reviews yet</h3>
+          <p className="text-muted-foreground">Reviews appear here once customers rate their visit.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button size="sm" variant={needsReplyOnly ? "outline" : "default"} onClick={() => setNeedsReplyOnly(false)}>
+          All
+        </Button>
+        <Button size="sm" variant={needsReplyOnly ? "default" : "outline"} onClick={() => setNeedsReplyOnly(true)}>
+          Needs reply ({unanswered})
+        </Button>
+      </div>
+
+      {visible.map((review) => (
+        <Card key={review.id} className="shadow-soft bg-gradient-card border-0">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{review.reviewer_name}</span>
+                <StarRating value={review.rating} />
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {review.created_at ? new Date(review.created_at).toLocaleDateString() : ""}
+              </span>
+            </div>
+            {review.tags && review.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {review.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="text-xs">{reviewTagLabel(tag)}</Badge>
+                ))}
+              </div>
+            )}
+            {review.review_text && <p className="text-sm whitespace-pre-line">{review.review_text}</p>}
+
+            {replyingTo === review.id ? (
+              <ResponseForm
+                review={review}
+                responderId={responderId}
+                onSaved={handleSaved}
+                onCancel={() => setReplyingTo(null)}
+              />
+            ) : review.response ? (
+              <div className="ml-4 pl-3 border-l-2 border-primary/30 text-sm flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">Your reply</p>
+                  <p className="text-muted-foreground whitespace-pre-line">{review.response.response_text}</p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => setReplyingTo(review.id)}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => setReplyingTo(review.id)}>
+                <Reply className="h-4 w-4 mr-1" />
+                Reply
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      {needsReplyOnly && unanswered === 0 && !loading && (
+        <p className="text-sm text-muted-foreground text-center">You've replied to every review loaded so far.</p>
+      )}
+      {loading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />}
+      {hasMore && !loading && (
+        <Button variant="outline" className="w-full" onClick={loadMore}>
+          Show More Reviews
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default BarberReviewsPanel;
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, LogOut } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cancelBooking, CancelBookingError } from "@/lib/queue";
+
+const CANCELLATION_REASONS = [
+  "Wait is too long",
+  "Change of plans",
+  "Found another shop",
+  "Other",
+];
+
+interface CancelBookingDialogProps {
+  bookingId: string;
+  shopName: string;
+}
+
+const CancelBookingDialog = ({ bookingId, shopName }: CancelBookingDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [reason, setReason] = useState(CANCELLATION_REASONS[0]);
+  const [details, setDetails] = useState("");
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+
+    try {
+      await cancelBooking(bookingId, reason === "Other" ? details || reason : reason);
+
+      toast({
+        title: "You've left the queue",
+        description: `Your booking at ${shopName} has been cancelled.`,
+      });
+      setOpen(false);
+    } catch (error) {
+      const { title, description } = error instanceof CancelBookingError
+        ? error
+        : new CancelBookingError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <LogOut className="h-4 w-4 mr-1" />
+          Leave Queue
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Leave the queue?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You'll lose your spot at {shopName}. Let the barber know why you're leaving.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <RadioGroup value={reason} onValueChange={setReason} className="space-y-2">
+          {CANCELLATION_REASONS.map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem value={option} id={`cancel-${option}`} />
+              <Label htmlFor={`cancel-${option}`}>{option}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {reason === "Other" && (
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Tell us more (optional)"
+            maxLength={200}
+          />
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={submitting}>Stay in Queue</AlertDialogCancel>
+          <Button variant="destructive" onClick={handleConfirm} disabled={submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Leave Queue
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CancelBookingDialog;
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2, Mail } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AccountError, updateEmail } from "@/lib/account";
+
+const changeEmailSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+});
+
+type ChangeEmailValues = z.infer<typeof changeEmailSchema>;
+
+const ChangeEmailCard = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<ChangeEmailValues>({
+    resolver: zodResolver(changeEmailSchema),
+    defaultValues: { email: "" },
+  });
+
+  const handleSubmit = async ({ email }: ChangeEmailValues) => {
+    if (email.toLowerCase() === user?.email?.toLowerCase()) {
+      form.setError("email", { message: "This is already your email" });
+      return;
+    }
+    setSaving(true);
+
+    try {
+      await updateEmail(email);
+
+      form.reset();
+      toast({
+        title: "Confirm your new email",
+        description: `We've sent confirmation links to ${user?.email ? `${user.email} and ` : ""}${email}.`,
+      });
+    } catch (error) {
+      const { title, description } = error instanceof AccountError
+        ? error
+        : new AccountError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-soft bg-gradient-card border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email
+        </CardTitle>
+        <CardDescription>
+          {user?.email ? `Currently ${user.email}` : "Add an email to sign in with a password"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {user?.new_email && (
+          <p className="text-sm text-muted-foreground mb-4">
+            Waiting for confirmation of {user.new_email}.
+          </p>
+        )}
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="you@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change Email
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ChangeEmailCard;
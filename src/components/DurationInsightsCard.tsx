@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Timer } from "lucide-react";
+import { parseServices } from "@/lib/services";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+// Same threshold expected_service_duration uses before trusting learned values
+const MIN_SAMPLES = 5;
+
+interface DurationInsightsCardProps {
+  shop: {
+    id: string;
+    services: Json;
+    avg_service_duration: number;
+    learned_duration_median: number | null;
+    learned_duration_p80: number | null;
+    learned_duration_samples: number;
+  };
+}
+
+interface DurationRow {
+  label: string;
+  configured: number | null;
+  median: number | null;
+  p80: number | null;
+  samples: number;
+}
+
+const formatMinutes = (minutes: number | null) =>
+  minutes === null ? "—" : `${Number(minutes).toFixed(0)} min`;
+
+const DurationInsightsCard = ({ shop }: DurationInsightsCardProps) => {
+  const [stats, setStats] = useState<Tables<"service_duration_stats">[]>([]);
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      const { data, error } = await supabase
+        .from('service_duration_stats')
+        .select('*')
+        .eq('shop_id', shop.id)
+        .order('sample_count', { ascending: false });
+
+      if (error) {
+        console.error("Error fetching duration stats:", error);
+        return;
+      }
+
+      setStats(data || []);
+    };
+
+    fetchStats();
+  }, [shop.id, shop.learned_duration_samples]);
+
+  const services = parseServices(shop.services);
+  const statsByName = new Map(stats.map(s => [s.service_name, s]));
+
+  const rows: DurationRow[] = [
+    {
+      label: "All services",
+      configured: shop.avg_service_duration,
+      median: shop.learned_duration_median,
+      p80: shop.learned_duration_p80,
+      samples: shop.learned_duration_samples,
+    },
+    ...services.map((service) => {
+      const stat = statsByName.get(service.name);
+      return {
+        label: service.name,
+        configured: service.duration,
+        median: stat?.median_minutes ?? null,
+        p80: stat?.p80_minutes ?? null,
+        samples: stat?.sample_count ?? 0,
+      };
+    }),
+    // Services that were removed from the catalog but still have history
+    ...stats
+      .filter(s => !services.some(service => service.name === s.service_name))
+      .map(s => ({
+        label: s.service_name,
+        configured: null,
+        median: s.median_minutes,
+        p80: s.p80_minutes,
+        samples: s.sample_count,
+      })),
+  ];
+
+  return (
+    <Card className="shadow-soft bg-gradient-card border-0 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Service Durations
+        </CardTitle>
+        <CardDescription>
+          How long services actually take over the last 90 days. Once a service has {MIN_SAMPLES} completed
+          bookings, its median replaces the configured duration in wait estimates.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          <div className="hidden md:grid grid-cols-[1fr_100px_100px_100px_140px] gap-3 text-xs text-muted-foreground">
+            <span>Service</span>
+            <span>Configured</span>
+            <span>Median</span>
+            <span>80% within</span>
+            <span />
+          </div>
+          {rows.map((row) => {
+            const learned = row.samples >= MIN_SAMPLES && row.median !== null;
+            const difference = learned && row.configured !== null ? Math.round(Number(row.median) - row.configured) : null;
+
+            return (
+              <div
+                key={row.label}
+                className="grid grid-cols-2 md:grid-cols-[1fr_100px_100px_100px_140px] gap-3 items-center p-3 rounded-lg bg-muted/30"
+              >
+                <div>
+                  <p className="font-medium">{row.label}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {row.samples} {row.samples === 1 ? "sample" : "samples"}
+                  </p>
+                </div>
+                <span className="text-sm">{formatMinutes(row.configured)}</span>
+                <span className="text-sm font-semibold">{formatMinutes(row.median)}</span>
+                <span className="text-sm">{formatMinutes(row.p80)}</span>
+                <div>
+                  {!learned ? (
+                    <Badge variant="outline">Needs {MIN_SAMPLES - row.samples} more</Badge>
+                  ) : difference === null || difference === 0 ? (
+                    <Badge variant="secondary">On target</Badge>
+                  ) : difference > 0 ? (
+                    <Badge variant="destructive">{difference} min longer</Badge>
+                  ) : (
+                    <Badge variant="success">{-difference} min shorter</Badge>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DurationInsightsCard;
@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+import { Heart } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface FavoriteButtonProps {
+  isFavorite: boolean;
+  onToggle: () => Promise<void>;
+  className?: string;
+}
+
+const FavoriteButton = ({ isFavorite, onToggle, className }: FavoriteButtonProps) => {
+  const { toast } = useToast();
+
+  const handleClick = async () => {
+    try {
+      await onToggle();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: isFavorite
+          ? "Failed to remove this shop from your favorites. Please try again."
+          : "Failed to save this shop to your favorites. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={handleClick}
+      aria-label={isFavorite ? "Remove from favorites" : "Add to favorites"}
+      aria-pressed={isFavorite}
+      className={cn("h-8 w-8 shrink-0", className)}
+    >
+      <Heart className={cn("h-4 w-4", isFavorite ? "fill-destructive text-destructive" : "text-muted-foreground")} />
+    </Button>
+  );
+};
+
+export default FavoriteButton;
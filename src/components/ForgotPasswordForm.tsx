@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { ArrowLeft, Loader2, MailCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AccountError, requestPasswordReset } from "@/lib/account";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+});
+
+type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
+
+interface ForgotPasswordFormProps {
+  defaultEmail?: string;
+  onBack: () => void;
+}
+
+const ForgotPasswordForm = ({ defaultEmail = "", onBack }: ForgotPasswordFormProps) => {
+  const { toast } = useToast();
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: defaultEmail },
+  });
+
+  const handleSubmit = async ({ email }: ForgotPasswordValues) => {
+    setSending(true);
+
+    try {
+      await requestPasswordReset(email);
+      setSentTo(email);
+    } catch (error) {
+      const { title, description } = error instanceof AccountError
+        ? error
+        : new AccountError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="space-y-4 text-center">
+        <MailCheck className="h-10 w-10 text-primary mx-auto" />
+        <p className="text-sm text-muted-foreground">
+          If an account exists for <span className="font-medium text-foreground">{sentTo}</span>, you'll
+          receive a link to reset your password shortly.
+        </p>
+        <Button variant="outline" className="w-full" onClick={onBack}>
+          Back to Sign In
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Enter the email you signed up with and we'll send you a link to choose a new password.
+        </p>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="Enter your email" autoFocus {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={sending} variant="hero">
+          {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Send Reset Link
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Sign In
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ForgotPasswordForm;
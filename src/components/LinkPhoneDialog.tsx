@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2, Smartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { phoneSchema, PhoneAuthError, requestPhoneLink, verifyPhoneLink } from "@/lib/phone-auth";
+import OtpVerificationForm from "@/components/OtpVerificationForm";
+
+const linkPhoneSchema = z.object({
+  phone: phoneSchema,
+});
+
+type LinkPhoneValues = z.infer<typeof linkPhoneSchema>;
+
+/**
+ * Adds a verified phone number to an email account so the user can also sign
+ * in with a code. Pre-filled with the phone stored on their profile.
+ */
+const LinkPhoneDialog = () => {
+  const { toast } = useToast();
+  const { profile, refreshProfile } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [pendingPhone, setPendingPhone] = useState<string | null>(null);
+
+  const form = useForm<LinkPhoneValues>({
+    resolver: zodResolver(linkPhoneSchema),
+    defaultValues: { phone: profile?.phone ?? "" },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      form.reset({ phone: profile?.phone ?? "" });
+      setPendingPhone(null);
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = async ({ phone }: LinkPhoneValues) => {
+    setSending(true);
+
+    try {
+      await requestPhoneLink(phone);
+      setPendingPhone(phone);
+    } catch (error) {
+      const { title, description } = error instanceof PhoneAuthError
+        ? error
+        : new PhoneAuthError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleVerify = async (phone: string, code: string) => {
+    await verifyPhoneLink(phone, code);
+    await refreshProfile();
+
+    toast({
+      title: "Phone linked",
+      description: `You can now sign in with ${phone}.`,
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Smartphone className="h-4 w-4 mr-2" />
+          Link Phone
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Link your phone number</DialogTitle>
+          <DialogDescription>Verify your number to sign in with a text message code.</DialogDescription>
+        </DialogHeader>
+        {pendingPhone ? (
+          <OtpVerificationForm
+            phone={pendingPhone}
+            onVerify={(code) => handleVerify(pendingPhone, code)}
+            onResend={() => requestPhoneLink(pendingPhone)}
+            onBack={() => setPendingPhone(null)}
+          />
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone Number</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="+91 98765 43210" autoComplete="tel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={sending}>
+                  {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send Code
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LinkPhoneDialog;
@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import L from "leaflet";
+import { CircleMarker, MapContainer, Marker, TileLayer, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Clock, MapPin, Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  clusterPoints,
+  MAP_TILE_ATTRIBUTION,
+  MAP_TILE_URL,
+  WAIT_LEVEL_LABELS,
+  waitLevel,
+  type WaitLevel,
+} from "@/lib/map";
+import OpenStatusBadge from "@/components/OpenStatusBadge";
+import type { Coordinates, NearbyShop } from "@/hooks/use-nearby-shops";
+import type { ShopQueueSummary } from "@/hooks/use-shop-queue-summaries";
+
+interface NearbyShopsMapProps {
+  shops: NearbyShop[];
+  userLocation: Coordinates | null;
+  queueSummaries: Record<string, ShopQueueSummary>;
+  onJoinQueue: (shop: NearbyShop) => void;
+}
+
+interface MappedShop {
+  shop: NearbyShop;
+  lat: number;
+  lng: number;
+  waitTime: number;
+  waitingCount: number;
+}
+
+// Markers closer than this on screen are merged into a cluster
+const CLUSTER_CELL_PX = 60;
+const DEFAULT_CENTER: [number, number] = [20, 0];
+
+const WAIT_LEVEL_CLASSES: Record<WaitLevel, string> = {
+  none: "bg-success",
+  short: "bg-warning",
+  long: "bg-destructive",
+};
+
+const shopIcon = (level: WaitLevel, selected: boolean) =>
+  L.divIcon({
+    className: "",
+    html: `<span class="block h-5 w-5 rounded-full border-2 border-white shadow-medium ${WAIT_LEVEL_CLASSES[level]} ${
+      selected ? "ring-4 ring-primary/40" : ""
+    }"></span>`,
+    iconSize: [20, 20],
+    iconAnchor: [10, 10],
+  });
+
+const clusterIcon = (count: number) =>
+  L.divIcon({
+    className: "",
+    html: `<span class="flex h-9 w-9 items-center justify-center rounded-full border-2 border-white bg-primary text-sm font-semibold text-primary-foreground shadow-medium">${count}</span>`,
+    iconSize: [36, 36],
+    iconAnchor: [18, 18],
+  });
+
+/** Frames the shops (and the customer) whenever the result set changes. */
+const FitToShops = ({ points }: { points: [number, number][] }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 0) return;
+    map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 15 });
+  }, [map, points]);
+
+  return null;
+};
+
+interface ShopMarkersProps {
+  shops: MappedShop[];
+  selectedId: string | null;
+  onSelect: (shopId: string) => void;
+}
+
+const ShopMarkers = ({ shops, selectedId, onSelect }: ShopMarkersProps) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const clusters = useMemo(
+    () => clusterPoints(shops, (s) => map.project([s.lat, s.lng], zoom), CLUSTER_CELL_PX),
+    [shops, map, zoom]
+  );
+
+  return (
+    <>
+      {clusters.map((cluster) => {
+        if (cluster.items.length === 1) {
+          const [{ shop, lat, lng, waitTime }] = cluster.items;
+
+          return (
+            <Marker
+              key={shop.id}
+              position={[lat, lng]}
+              icon={shopIcon(waitLevel(waitTime), shop.id === selectedId)}
+              eventHandlers={{ click: () => onSelect(shop.id) }}
+            >
+              <Tooltip direction="top" offset={[0, -10]}>{shop.shop_name}</Tooltip>
+            </Marker>
+          );
+        }
+
+        return (
+          <Marker
+            key={cluster.items.map((s) => s.shop.id).join()}
+            position={[cluster.lat, cluster.lng]}
+            icon={clusterIcon(cluster.items.length)}
+            eventHandlers={{
+              click: () => map.fitBounds(L.latLngBounds(cluster.items.map((s) => [s.lat, s.lng])), { padding: [40, 40] }),
+            }}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+/** Nearby shops on a map, coloured by current wait, with a panel to join the selected shop's queue. */
+const NearbyShopsMap = ({ shops, userLocation, queueSummaries, onJoinQueue }: NearbyShopsMapProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const located = useMemo(
+    () =>
+      shops
+        .filter((shop) => shop.latitude != null && shop.longitude != null)
+        .map((shop) => ({ shop, lat: Number(shop.latitude), lng: Number(shop.longitude) })),
+    [shops]
+  );
+
+  // Live counts where available, the search snapshot otherwise
+  const mapped = useMemo<MappedShop[]>(
+    () =>
+      located.map((point) => {
+        const summary = queueSummaries[point.shop.id] ?? point.shop;
+        return { ...point, waitTime: summary.estimated_wait_time, waitingCount: summary.waiting_count };
+      }),
+    [located, queueSummaries]
+  );
+
+  // Refit when the shops or the customer's position change, not on queue updates
+  const framePoints = useMemo<[number, number][]>(
+    () => [
+      ...located.map((s): [number, number] => [s.lat, s.lng]),
+      ...(userLocation ? [[userLocation.lat, userLocation.lng] as [number, number]] : []),
+    ],
+    [located, userLocation]
+  );
+
+  const selected = mapped.find((s) => s.shop.id === selectedId);
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-2">
+        {/* z-0 keeps Leaflet's panes below dialogs and dropdowns */}
+        <div className="relative z-0 h-[480px] overflow-hidden rounded-xl shadow-medium">
+          <MapContainer
+            center={userLocation ? [userLocation.lat, userLocation.lng] : DEFAULT_CENTER}
+            zoom={userLocation ? 13 : 2}
+            className="h-full w-full"
+          >
+            <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
+            <FitToShops points={framePoints} />
+            {userLocation && (
+              <CircleMarker
+                center={[userLocation.lat, userLocation.lng]}
+                radius={8}
+                pathOptions={{ color: "white", weight: 2, fillColor: "hsl(210 80% 45%)", fillOpacity: 1 }}
+              >
+                <Tooltip direction="top">You are here</Tooltip>
+              </CircleMarker>
+            )}
+            <ShopMarkers shops={mapped} selectedId={selectedId} onSelect={setSelectedId} />
+          </MapContainer>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+          {(Object.keys(WAIT_LEVEL_LABELS) as WaitLevel[]).map((level) => (
+            <span key={level} className="flex items-center gap-1">
+              <span className={cn("h-3 w-3 rounded-full", WAIT_LEVEL_CLASSES[level])} />
+              {WAIT_LEVEL_LABELS[level]}
+            </span>
+          ))}
+          {mapped.length < shops.length && (
+            <span>{shops.length - mapped.length} shops without a map location aren't shown</span>
+          )}
+        </div>
+      </div>
+
+      {selected ? (
+        <Card className="shadow-medium bg-gradient-card border-0 h-fit">
+          <CardHeader>
+            <CardTitle className="text-lg">
+              <Link to={`/shops/${selected.shop.id}`} className="hover:underline">{selected.shop.shop_name}</Link>
+            </CardTitle>
+            <CardDescription className="flex items-center gap-1">
+              <MapPin className="h-3 w-3" />
+              {selected.shop.shop_address}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                <span>{selected.waitTime > 0 ? `~${selected.waitTime} min wait` : "No wait"}</span>
+              </div>
+              <Badge variant="secondary" className="text-xs">{selected.waitingCount} in queue</Badge>
+            </div>
+            <OpenStatusBadge workingHours={selected.shop.working_hours} />
+            <div className="flex items-center gap-4 text-sm">
+              {selected.shop.distance_km != null && (
+                <Badge variant="outline">{selected.shop.distance_km.toFixed(1)} km</Badge>
+              )}
+              {selected.shop.rating_avg > 0 && (
+                <span className="flex items-center gap-1">
+                  <Star className="h-4 w-4 text-warning fill-warning" />
+                  {selected.shop.rating_avg}
+                  <span className="text-muted-foreground">({selected.shop.total_reviews} reviews)</span>
+                </span>
+              )}
+            </div>
+            <Button onClick={() => onJoinQueue(selected.shop)} className="w-full">
+              Join Queue
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="p-8 text-center shadow-soft bg-gradient-card border-0 h-fit">
+          <CardContent className="p-0">
+            <MapPin className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Pick a shop</h3>
+            <p className="text-muted-foreground">Tap a marker to see the wait and join the queue.</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default NearbyShopsMap;
@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getOpenStatus, parseWorkingHours } from "@/lib/working-hours";
+import type { Json } from "@/integrations/supabase/types";
+
+interface OpenStatusBadgeProps {
+  workingHours: Json | null | undefined;
+  className?: string;
+}
+
+const OpenStatusBadge = ({ workingHours, className }: OpenStatusBadgeProps) => {
+  const [now, setNow] = useState(() => new Date());
+
+  // Re-evaluate every minute so badges flip at opening and closing time
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const status = getOpenStatus(parseWorkingHours(workingHours), now);
+  if (!status) return null;
+
+  return (
+    <div className={cn("flex items-center gap-2 text-sm", className)}>
+      <Badge variant={status.isOpen ? "success" : "secondary"}>
+        {status.isOpen ? "Open now" : "Closed"}
+      </Badge>
+      <span className="text-muted-foreground">{status.label}</span>
+    </div>
+  );
+};
+
+export default OpenStatusBadge;
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { OTP_LENGTH, OTP_RESEND_SECONDS, PhoneAuthError } from "@/lib/phone-auth";
+
+interface OtpVerificationFormProps {
+  phone: string;
+  onVerify: (code: string) => Promise<void>;
+  onResend: () => Promise<void>;
+  onBack: () => void;
+}
+
+/**
+ * Code entry step shared by phone sign-in and phone linking. Submits as soon
+ * as every digit is entered and lets the user resend after a cooldown.
+ */
+const OtpVerificationForm = ({ phone, onVerify, onResend, onBack }: OtpVerificationFormProps) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [verifying, setVerifying] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(OTP_RESEND_SECONDS);
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+
+    const timer = setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft]);
+
+  const showError = (error: unknown) => {
+    const { title, description } = error instanceof PhoneAuthError
+      ? error
+      : new PhoneAuthError("unknown");
+
+    toast({
+      title,
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleVerify = async (value: string) => {
+    if (value.length !== OTP_LENGTH || verifying) return;
+    setVerifying(true);
+
+    try {
+      await onVerify(value);
+    } catch (error) {
+      showError(error);
+      setCode("");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setResending(true);
+
+    try {
+      await onResend();
+      setCode("");
+      setSecondsLeft(OTP_RESEND_SECONDS);
+      toast({
+        title: "Code sent",
+        description: `We've sent a new code to ${phone}.`,
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleVerify(code);
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-muted-foreground text-center">
+        Enter the {OTP_LENGTH}-digit code we sent to <span className="font-medium text-foreground">{phone}</span>
+      </p>
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={OTP_LENGTH}
+          pattern={REGEXP_ONLY_DIGITS}
+          value={code}
+          onChange={setCode}
+          onComplete={handleVerify}
+          disabled={verifying}
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: OTP_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={verifying || code.length !== OTP_LENGTH}
+        variant="hero"
+      >
+        {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify
+      </Button>
+      <div className="flex items-center justify-between text-sm">
+        <Button type="button" variant="ghost" size="sm" onClick={onBack} disabled={verifying}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Change number
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          onClick={handleResend}
+          disabled={secondsLeft > 0 || resending || verifying}
+        >
+          {secondsLeft > 0 ? `Resend in ${secondsLeft}s` : "Resend code"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default OtpVerificationForm;
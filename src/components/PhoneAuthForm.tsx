@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { phoneSchema, PhoneAuthError, sendPhoneOtp, verifyPhoneOtp } from "@/lib/phone-auth";
+import OtpVerificationForm from "@/components/OtpVerificationForm";
+
+type PhoneAuthMode = "signin" | "signup";
+
+const phoneFormSchema = (mode: PhoneAuthMode) => z.object({
+  phone: phoneSchema,
+  name: mode === "signup"
+    ? z.string().trim().min(1, "Enter your name").max(60, "Keep the name under 60 characters")
+    : z.string(),
+});
+
+type PhoneFormValues = z.infer<ReturnType<typeof phoneFormSchema>>;
+
+interface PhoneAuthFormProps {
+  mode: PhoneAuthMode;
+}
+
+/**
+ * Phone sign-in and sign-up: collects the number, texts a code and verifies it.
+ * Signing in only works for numbers that already have an account, either from
+ * a phone sign-up or linked to an email account.
+ */
+const PhoneAuthForm = ({ mode }: PhoneAuthFormProps) => {
+  const { toast } = useToast();
+  const [sending, setSending] = useState(false);
+  const [pending, setPending] = useState<{ phone: string; name: string } | null>(null);
+
+  const form = useForm<PhoneFormValues>({
+    resolver: zodResolver(phoneFormSchema(mode)),
+    defaultValues: { phone: "", name: "" },
+  });
+
+  const sendCode = (phone: string, name: string) =>
+    sendPhoneOtp(phone, { createUser: mode === "signup", name });
+
+  // The resolver hands over the normalized E.164 number
+  const handleSubmit = async ({ phone, name }: PhoneFormValues) => {
+    setSending(true);
+
+    try {
+      await sendCode(phone, name);
+      setPending({ phone, name });
+    } catch (error) {
+      const { title, description } = error instanceof PhoneAuthError
+        ? error
+        : new PhoneAuthError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (pending) {
+    return (
+      <OtpVerificationForm
+        phone={pending.phone}
+        onVerify={(code) => verifyPhoneOtp(pending.phone, code)}
+        onResend={() => sendCode(pending.phone, pending.name)}
+        onBack={() => setPending(null)}
+      />
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {mode === "signup" && (
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Full Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter your full name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <FormField
+          control={form.control}
+          name="phone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Phone Number</FormLabel>
+              <FormControl>
+                <Input type="tel" placeholder="+91 98765 43210" autoComplete="tel" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={sending} variant="hero">
+          {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Send Code
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default PhoneAuthForm;
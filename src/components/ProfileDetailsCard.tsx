@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2, User } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AccountError, profileDetailsSchema, updateProfileDetails, type ProfileDetails } from "@/lib/account";
+
+const ProfileDetailsCard = () => {
+  const { toast } = useToast();
+  const { user, profile, refreshProfile } = useAuth();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<ProfileDetails>({
+    resolver: zodResolver(profileDetailsSchema),
+    values: { name: profile?.name ?? "", phone: profile?.phone ?? "" },
+  });
+
+  const handleSubmit = async (values: ProfileDetails) => {
+    if (!user) return;
+    setSaving(true);
+
+    try {
+      await updateProfileDetails(user.id, values);
+      await refreshProfile();
+
+      toast({
+        title: "Profile updated",
+        description: "Your details have been saved.",
+      });
+    } catch (error) {
+      const { title, description } = error instanceof AccountError
+        ? error
+        : new AccountError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-soft bg-gradient-card border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <User className="h-5 w-5" />
+          Profile
+        </CardTitle>
+        <CardDescription>How barbers see you in their queue</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contact Phone</FormLabel>
+                  <FormControl>
+                    <Input type="tel" {...field} />
+                  </FormControl>
+                  <FormDescription>Shown to barbers so they can reach you about a booking.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={saving || !form.formState.isDirty}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Profile
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProfileDetailsCard;
@@ -0,0 +1,318 @@
+import { useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CheckCircle, ChevronDown, ChevronUp, Clock, History, Loader2, Mail, MapPin, Phone, Store, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import TimezoneSelect from "@/components/TimezoneSelect";
+import {
+  approveRegistration,
+  ApproveRegistrationError,
+  parseServicesOffered,
+  parseWorkingHoursText,
+} from "@/lib/registration";
+import { localTimezone, WEEKDAYS } from "@/lib/working-hours";
+import type { Tables } from "@/integrations/supabase/types";
+
+type RegistrationRequest = Tables<"barber_registration_requests">;
+type Decision = "approved" | "rejected";
+
+interface RegistrationRequestCardProps {
+  request: RegistrationRequest;
+  onReviewed: (request: RegistrationRequest) => void;
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'approved': return 'success';
+    case 'rejected': return 'destructive';
+    default: return 'warning';
+  }
+};
+
+const RegistrationRequestCard = ({ request, onReviewed }: RegistrationRequestCardProps) => {
+  const { toast } = useToast();
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [notes, setNotes] = useState("");
+  // Requests from before the timezone was collected fall back to the admin's zone
+  const [timezone, setTimezone] = useState(request.timezone || localTimezone());
+  const [submitting, setSubmitting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<Tables<"registration_request_events">[] | null>(null);
+
+  const fetchHistory = async () => {
+    const { data, error } = await supabase
+      .from('registration_request_events')
+      .select('*')
+      .eq('request_id', request.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching request history:", error);
+      return;
+    }
+
+    setHistory(data || []);
+  };
+
+  const toggleHistory = () => {
+    if (!showHistory) fetchHistory();
+    setShowHistory(!showHistory);
+  };
+
+  // Preview of what the approval will create; the barber can edit both later
+  const parsedServices = useMemo(() => parseServicesOffered(request.services_offered), [request.services_offered]);
+  const parsedHours = useMemo(
+    () => parseWorkingHoursText(request.working_hours, timezone),
+    [request.working_hours, timezone]
+  );
+
+  const openReview = (next: Decision) => {
+    setNotes("");
+    setDecision(next);
+  };
+
+  const handleReview = async () => {
+    if (!decision) return;
+    setSubmitting(true);
+
+    try {
+      if (decision === 'approved') {
+        await approveRegistration(request.id, {
+          notes: notes.trim(),
+          services: parsedServices,
+          workingHours: parsedHours,
+        });
+      } else {
+        const { error } = await supabase
+          .from('barber_registration_requests')
+          .update({ status: decision, review_notes: notes.trim() || null })
+          .eq('id', request.id);
+
+        if (error) throw error;
+      }
+
+      const { data, error } = await supabase
+        .from('barber_registration_requests')
+        .select('*')
+        .eq('id', request.id)
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: decision === 'approved' ? "Request Approved" : "Request Rejected",
+        description: decision === 'approved'
+          ? `${request.shop_name} has been created and ${request.email} was invited.`
+          : `${request.shop_name} has been rejected.`,
+      });
+      onReviewed(data);
+      setDecision(null);
+      if (showHistory) fetchHistory();
+    } catch (error) {
+      if (error instanceof ApproveRegistrationError) {
+        toast({
+          title: error.title,
+          description: error.description,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      console.error("Error reviewing registration request:", error);
+      toast({
+        title: "Review Failed",
+        description: "Failed to update the request. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-soft bg-gradient-card border-0">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="text-lg">{request.shop_name}</CardTitle>
+          <CardDescription>
+            {request.name} · submitted {request.created_at ? new Date(request.created_at).toLocaleString() : "—"}
+          </CardDescription>
+        </div>
+        <Badge variant={getStatusColor(request.status)}>{request.status}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-3 text-sm">
+          <p className="flex items-center gap-2">
+            <Phone className="h-4 w-4 text-muted-foreground" />
+            {request.phone}
+          </p>
+          <p className="flex items-center gap-2">
+            <Mail className="h-4 w-4 text-muted-foreground" />
+            {request.email || <span className="text-muted-foreground">No email provided</span>}
+          </p>
+          <p className="flex items-center gap-2">
+            <MapPin className="h-4 w-4 text-muted-foreground" />
+            {request.shop_address}
+          </p>
+          <div>
+            <p className="text-muted-foreground mb-1">Services</p>
+            <p className="whitespace-pre-line">{request.services_offered}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground mb-1 flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              Working hours
+            </p>
+            <p className="whitespace-pre-line">{request.working_hours}</p>
+            {request.timezone && <p className="text-muted-foreground">{request.timezone}</p>}
+          </div>
+        </div>
+
+        {request.shop_id && (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Store className="h-4 w-4" />
+            Shop created · {request.shop_id}
+          </p>
+        )}
+
+        {request.review_notes && (
+          <div className="p-3 rounded-lg bg-muted/30 text-sm">
+            <p className="text-muted-foreground mb-1">Review notes</p>
+            <p className="whitespace-pre-line">{request.review_notes}</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Button size="sm" variant="ghost" onClick={toggleHistory}>
+            <History className="h-4 w-4 mr-1" />
+            Status history
+            {showHistory ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+          </Button>
+          {request.status === 'pending' && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => openReview('rejected')}>
+                <XCircle className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button size="sm" onClick={() => openReview('approved')}>
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {showHistory && (
+          <div className="space-y-2">
+            {history === null ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No history recorded.</p>
+            ) : (
+              history.map((event) => (
+                <div key={event.id} className="flex items-start justify-between gap-4 p-3 rounded-lg bg-muted/30 text-sm">
+                  <div>
+                    <Badge variant={getStatusColor(event.status)} className="text-xs">{event.status}</Badge>
+                    {event.notes && <p className="mt-1 text-muted-foreground whitespace-pre-line">{event.notes}</p>}
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {new Date(event.created_at).toLocaleString()}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!decision} onOpenChange={(open) => !open && setDecision(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{decision === 'approved' ? "Approve" : "Reject"} {request.shop_name}?</DialogTitle>
+            <DialogDescription>
+              {decision === 'approved'
+                ? `An invitation will be sent to ${request.email || "the applicant"} and their shop will be created.`
+                : "The applicant will be told their request was not accepted."}
+            </DialogDescription>
+          </DialogHeader>
+          {decision === 'approved' && (
+            <div className="space-y-3 text-sm">
+              <div>
+                <p className="font-medium mb-1">Services ({parsedServices.length})</p>
+                {parsedServices.length === 0 ? (
+                  <p className="text-muted-foreground">None recognised; the barber can add them later.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    {parsedServices.map((service) => (
+                      <Badge key={service.id} variant="outline">
+                        {service.name}{service.price > 0 && ` · $${service.price}`}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`review-timezone-${request.id}`}>Shop timezone</Label>
+                <TimezoneSelect id={`review-timezone-${request.id}`} value={timezone} onChange={setTimezone} />
+                {!request.timezone && (
+                  <p className="text-muted-foreground">The applicant didn't choose one; check it matches the shop's address.</p>
+                )}
+              </div>
+              <div>
+                <p className="font-medium mb-1">Working hours</p>
+                {parsedHours ? (
+                  <div className="grid grid-cols-2 gap-x-4 text-muted-foreground">
+                    {WEEKDAYS.map((day) => (
+                      <span key={day} className="capitalize">
+                        {day}: {parsedHours.days[day].ranges.map(r => `${r.open}–${r.close}`).join(", ") || "Closed"}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">Couldn't read the hours; the shop stays open until the barber sets them.</p>
+                )}
+              </div>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor={`review-notes-${request.id}`}>Notes</Label>
+            <Textarea
+              id={`review-notes-${request.id}`}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={decision === 'approved' ? "Optional notes for the team" : "Why was this request rejected?"}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecision(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={decision === 'rejected' ? "destructive" : "default"}
+              onClick={handleReview}
+              disabled={submitting || (decision === 'approved' && !request.email)}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {decision === 'approved' ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default RegistrationRequestCard;
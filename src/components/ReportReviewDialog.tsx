@@ -0,0 +1,103 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Flag, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { REPORT_REASONS, reportReview, ReviewError, type ReportReason } from "@/lib/reviews";
+
+interface ReportReviewDialogProps {
+  reviewId: string;
+  reporterId: string;
+}
+
+const ReportReviewDialog = ({ reviewId, reporterId }: ReportReviewDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [reason, setReason] = useState<ReportReason>(REPORT_REASONS[0].value);
+  const [details, setDetails] = useState("");
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+
+    try {
+      await reportReview(reviewId, reporterId, reason, details);
+
+      toast({
+        title: "Review reported",
+        description: "Thanks for letting us know. Our team will take a look.",
+      });
+      setOpen(false);
+      setDetails("");
+    } catch (error) {
+      const { title, description } = error instanceof ReviewError
+        ? error
+        : new ReviewError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-7 px-2 text-muted-foreground">
+          <Flag className="h-3 w-3 mr-1" />
+          Report
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Report this review?</AlertDialogTitle>
+          <AlertDialogDescription>
+            An admin will check it and hide it if it breaks our guidelines.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} className="space-y-2">
+          {REPORT_REASONS.map((option) => (
+            <div key={option.value} className="flex items-center gap-2">
+              <RadioGroupItem value={option.value} id={`report-${reviewId}-${option.value}`} />
+              <Label htmlFor={`report-${reviewId}-${option.value}`}>{option.label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder="Anything else we should know? (optional)"
+          maxLength={500}
+        />
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={submitting}>Cancel</AlertDialogCancel>
+          <Button variant="destructive" onClick={handleConfirm} disabled={submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Report Review
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ReportReviewDialog;
@@ -0,0 +1,49 @@
+import type { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Scissors } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+/**
+ * Renders its children only for signed-in users. Signed-out visitors, including
+ * those signed out from another tab, are sent to /auth.
+ */
+const RequireAuth = ({ children }: RequireAuthProps) => {
+  const { user, profile, loading, error, refreshProfile } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10 flex items-center justify-center">
+        <div className="p-4 bg-gradient-primary rounded-2xl w-fit mx-auto animate-pulse">
+          <Scissors className="h-8 w-8 text-primary-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  if (error && !profile) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10 flex items-center justify-center p-6">
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">We couldn't load your account. Please check your connection.</p>
+          <Button variant="outline" onClick={refreshProfile}>
+            Try Again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
@@ -0,0 +1,45 @@
+import { useEffect, type ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ROLE_HOME, type UserRole } from "@/lib/roles";
+import RequireAuth from "@/components/RequireAuth";
+
+interface RequireRoleProps {
+  role: UserRole;
+  children: ReactNode;
+}
+
+const RoleGate = ({ role, children }: RequireRoleProps) => {
+  const { toast } = useToast();
+  const { role: currentRole } = useAuth();
+  const allowed = currentRole === role;
+
+  useEffect(() => {
+    if (!allowed) {
+      toast({
+        title: "Access Denied",
+        description: `This page is only available to ${role} accounts.`,
+        variant: "destructive",
+      });
+    }
+  }, [allowed, role, toast]);
+
+  if (!allowed) {
+    return <Navigate to={currentRole ? ROLE_HOME[currentRole] : "/"} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+/**
+ * Renders its children only for signed-in users whose profile has the given
+ * role. Signed-out visitors go to /auth; everyone else goes to their own home.
+ */
+const RequireRole = ({ role, children }: RequireRoleProps) => (
+  <RequireAuth>
+    <RoleGate role={role}>{children}</RoleGate>
+  </RequireAuth>
+);
+
+export default RequireRole;
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  REVIEW_TAGS,
+  reviewSchema,
+  ReviewError,
+  submitReview,
+  updateReview,
+  type Review,
+  type ReviewTag,
+  type ReviewValues,
+} from "@/lib/reviews";
+import StarRating from "@/components/StarRating";
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookingId: string;
+  shopName: string;
+  /** Existing review to edit; a new one is created otherwise. */
+  review?: Review;
+  onSaved: (review: Review) => void;
+}
+
+const toFormValues = (review?: Review): ReviewValues => ({
+  rating: review?.rating ?? 0,
+  reviewText: review?.review_text ?? "",
+  tags: (review?.tags ?? []).filter((tag): tag is ReviewTag => REVIEW_TAGS.some(t => t.value === tag)),
+});
+
+const ReviewDialog = ({ open, onOpenChange, bookingId, shopName, review, onSaved }: ReviewDialogProps) => {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<ReviewValues>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: toFormValues(review),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(review));
+  }, [open, review, form]);
+
+  const handleSubmit = async (values: ReviewValues) => {
+    setSaving(true);
+
+    try {
+      const saved = review
+        ? await updateReview(review.id, values)
+        : await submitReview(bookingId, values);
+
+      toast({
+        title: review ? "Review updated" : "Thanks for your review!",
+        description: `Your feedback helps ${shopName} and other customers.`,
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      const { title, description } = error instanceof ReviewError
+        ? error
+        : new ReviewError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{review ? "Edit your review" : "How was your visit?"}</DialogTitle>
+          <DialogDescription>Rate your visit to {shopName}.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="rating"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rating</FormLabel>
+                  <FormControl>
+                    <StarRating value={field.value} onChange={field.onChange} starClassName="h-7 w-7" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>What stood out?</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {REVIEW_TAGS.map((tag) => {
+                      const selected = field.value.includes(tag.value);
+
+                      return (
+                        <button
+                          key={tag.value}
+                          type="button"
+                          aria-pressed={selected}
+                          onClick={() => field.onChange(
+                            selected ? field.value.filter(t => t !== tag.value) : [...field.value, tag.value]
+                          )}
+                        >
+                          <Badge variant={selected ? "default" : "outline"} className="cursor-pointer">
+                            {tag.label}
+                          </Badge>
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reviewText"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Review (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Tell others about your haircut" rows={4} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {review ? "Save Changes" : "Submit Review"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CheckCircle, EyeOff, Flag, Loader2, RotateCcw, ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  moderateReview,
+  reportReasonLabel,
+  ReviewError,
+  reviewTagLabel,
+  type ModerationAction,
+  type Review,
+  type ReviewModeration,
+  type ReviewReport,
+} from "@/lib/reviews";
+import StarRating from "@/components/StarRating";
+
+type ModeratedReview = Review & { barber_shops: { shop_name: string } | null };
+
+type HiddenReview = ReviewModeration & { reviews: ModeratedReview | null };
+
+interface ReportedReview {
+  review: ModeratedReview;
+  reports: ReviewReport[];
+}
+
+const ACTION_COPY: Record<ModerationAction, { title: string; description: string; button: string }> = {
+  hide: {
+    title: "Hide this review?",
+    description: "It will disappear from the shop page and stop counting towards the shop's rating.",
+    button: "Hide Review",
+  },
+  dismiss: {
+    title: "Dismiss the reports?",
+    description: "The review stays visible and its open reports are closed.",
+    button: "Dismiss Reports",
+  },
+  restore: {
+    title: "Restore this review?",
+    description: "It will be shown on the shop page and count towards the shop's rating again.",
+    button: "Restore Review",
+  },
+};
+
+/** Admin queue of reported reviews, plus hidden reviews that can be restored. */
+const ReviewModerationQueue = () => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [openReports, setOpenReports] = useState<(ReviewReport & { reviews: ModeratedReview | null })[]>([]);
+  const [hidden, setHidden] = useState<HiddenReview[]>([]);
+  const [pending, setPending] = useState<{ review: ModeratedReview; action: ModerationAction } | null>(null);
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const [reportsResult, hiddenResult] = await Promise.all([
+        supabase
+          .from('review_reports')
+          .select('*, reviews(*, barber_shops(shop_name))')
+          .eq('status', 'open')
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('review_moderations')
+          .select('*, reviews(*, barber_shops(shop_name))')
+          .eq('action', 'hide')
+          .order('moderated_at', { ascending: false }),
+      ]);
+
+      if (reportsResult.error) throw reportsResult.error;
+      if (hiddenResult.error) throw hiddenResult.error;
+
+      setOpenReports(reportsResult.data || []);
+      setHidden(hiddenResult.data || []);
+    } catch (error) {
+      console.error("Error fetching moderation queue:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load reported reviews.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  // One card per review, oldest report first
+  const reported = useMemo(() => {
+    const byReview = new Map<string, ReportedReview>();
+    openReports.forEach(({ reviews: review, ...report }) => {
+      if (!review) return;
+      const entry = byReview.get(review.id) ?? { review, reports: [] };
+      entry.reports.push(report);
+      byReview.set(review.id, entry);
+    });
+    return [...byReview.values()];
+  }, [openReports]);
+
+  const hiddenReviews = useMemo(
+    () => hidden.flatMap(({ reviews: review, ...moderation }) => (review ? [{ review, moderation }] : [])),
+    [hidden]
+  );
+
+  const openDecision = (review: ModeratedReview, action: ModerationAction) => {
+    setNotes("");
+    setPending({ review, action });
+  };
+
+  const handleModerate = async () => {
+    if (!pending) return;
+    setSubmitting(true);
+
+    try {
+      await moderateReview(pending.review.id, pending.action, notes.trim());
+
+      toast({
+        title: pending.action === 'hide' ? "Review hidden" : pending.action === 'restore' ? "Review restored" : "Reports dismissed",
+        description: pending.review.barber_shops
+          ? `${pending.review.barber_shops.shop_name}'s rating is up to date.`
+          : "The moderation queue has been updated.",
+      });
+      setPending(null);
+      await fetchQueue();
+    } catch (error) {
+      const { title, description } = error instanceof ReviewError
+        ? error
+        : new ReviewError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderReview = (review: ModeratedReview) => (
+    <div className="p-3 rounded-lg bg-muted/30 space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <StarRating value={review.rating} />
+        <span className="text-xs text-muted-foreground">
+          {review.created_at ? new Date(review.created_at).toLocaleDateString() : ""}
+        </span>
+      </div>
+      {review.tags && review.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {review.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="text-xs">{reviewTagLabel(tag)}</Badge>
+          ))}
+        </div>
+      )}
+      {review.review_text ? (
+        <p className="whitespace-pre-line">{review.review_text}</p>
+      ) : (
+        <p className="text-muted-foreground">No written review.</p>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return <Loader2 className="h-6 w-6 animate-spin text-muted-foreground mx-auto" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <h2 className="text-2xl font-bold">Reported Reviews ({reported.length})</h2>
+        {reported.length === 0 ? (
+          <Card className="p-8 text-center shadow-soft bg-gradient-card border-0">
+            <CardContent className="p-0">
+              <ShieldCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No open reports</h3>
+              <p className="text-muted-foreground">You're all caught up!</p>
+            </CardContent>
+          </Card>
+        ) : (
+          reported.map(({ review, reports }) => (
+            <Card key={review.id} className="shadow-soft bg-gradient-card border-0">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1">
+                  <CardTitle className="text-lg">{review.barber_shops?.shop_name ?? "Unknown shop"}</CardTitle>
+                  <CardDescription>
+                    {reports.length} {reports.length === 1 ? "report" : "reports"} · first on {new Date(reports[0].created_at).toLocaleString()}
+                  </CardDescription>
+                </div>
+                <Badge variant="warning">open</Badge>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {renderReview(review)}
+                <div className="space-y-2">
+                  {reports.map((report) => (
+                    <div key={report.id} className="flex items-start gap-2 text-sm">
+                      <Flag className="h-4 w-4 text-muted-foreground mt-0.5" />
+                      <div>
+                        <p className="font-medium">{reportReasonLabel(report.reason)}</p>
+                        {report.details && <p className="text-muted-foreground whitespace-pre-line">{report.details}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => openDecision(review, 'dismiss')}>
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Keep Review
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => openDecision(review, 'hide')}>
+                    <EyeOff className="h-4 w-4 mr-1" />
+                    Hide Review
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {hiddenReviews.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-2xl font-bold">Hidden Reviews ({hiddenReviews.length})</h2>
+          {hiddenReviews.map(({ review, moderation }) => (
+            <Card key={review.id} className="shadow-soft bg-gradient-card border-0">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1">
+                  <CardTitle className="text-lg">{review.barber_shops?.shop_name ?? "Unknown shop"}</CardTitle>
+                  <CardDescription>
+                    Hidden {new Date(moderation.moderated_at).toLocaleString()}
+                  </CardDescription>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => openDecision(review, 'restore')}>
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Restore
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {renderReview(review)}
+                {moderation.notes && (
+                  <div className="p-3 rounded-lg bg-muted/30 text-sm">
+                    <p className="text-muted-foreground mb-1">Moderation notes</p>
+                    <p className="whitespace-pre-line">{moderation.notes}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pending && ACTION_COPY[pending.action].title}</DialogTitle>
+            <DialogDescription>{pending && ACTION_COPY[pending.action].description}</DialogDescription>
+          </DialogHeader>
+          {pending?.action !== 'dismiss' && (
+            <div className="space-y-2">
+              <Label htmlFor="moderation-notes">Notes</Label>
+              <Textarea
+                id="moderation-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional notes for the team"
+                rows={3}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pending?.action === 'hide' ? "destructive" : "default"}
+              onClick={handleModerate}
+              disabled={submitting}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pending && ACTION_COPY[pending.action].button}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReviewModerationQueue;
@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Clock, Loader2, Pencil, Plus, Scissors, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { newServiceId, SERVICE_CATEGORIES, serviceSchema, type Service } from "@/lib/services";
+
+interface ServiceCatalogEditorProps {
+  shopId: string;
+  services: Service[];
+  onChange: (services: Service[]) => void;
+}
+
+const emptyService = (): Service => ({
+  id: newServiceId(),
+  name: "",
+  price: 0,
+  duration: 30,
+  category: "Hair",
+  active: true,
+});
+
+const ServiceCatalogEditor = ({ shopId, services, onChange }: ServiceCatalogEditorProps) => {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Service | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<Service>({
+    resolver: zodResolver(serviceSchema),
+    defaultValues: emptyService(),
+  });
+
+  useEffect(() => {
+    if (editing) form.reset(editing);
+  }, [editing, form]);
+
+  const persist = async (next: Service[]) => {
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('barber_shops')
+        .update({ services: next })
+        .eq('id', shopId);
+
+      if (error) throw error;
+
+      onChange(next);
+      return true;
+    } catch (error) {
+      console.error("Error saving services:", error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to update your services. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (values: Service) => {
+    const exists = services.some(s => s.id === values.id);
+    const next = exists
+      ? services.map(s => (s.id === values.id ? values : s))
+      : [...services, values];
+
+    if (await persist(next)) {
+      toast({
+        title: exists ? "Service Updated" : "Service Added",
+        description: `${values.name} has been saved.`,
+      });
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = async (service: Service) => {
+    if (await persist(services.filter(s => s.id !== service.id))) {
+      toast({
+        title: "Service Removed",
+        description: `${service.name} is no longer offered.`,
+      });
+    }
+  };
+
+  const handleToggleActive = (service: Service, active: boolean) => {
+    persist(services.map(s => (s.id === service.id ? { ...s, active } : s)));
+  };
+
+  const isNew = editing ? !services.some(s => s.id === editing.id) : false;
+
+  return (
+    <Card className="shadow-soft bg-gradient-card border-0 md:col-span-2">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Services</CardTitle>
+          <CardDescription>What customers can book, with prices and durations</CardDescription>
+        </div>
+        <Button size="sm" variant="secondary" onClick={() => setEditing(emptyService())}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Service
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {services.length === 0 ? (
+          <div className="text-center py-6">
+            <Scissors className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">No services yet. Add your first service so customers can book it.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {services.map((service) => (
+              <div key={service.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{service.name}</span>
+                    <Badge variant="outline" className="text-xs">{service.category}</Badge>
+                    {!service.active && <Badge variant="secondary" className="text-xs">Hidden</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <span>${service.price}</span>
+                    <span>•</span>
+                    <Clock className="h-3 w-3" />
+                    <span>{service.duration} min</span>
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={service.active}
+                    onCheckedChange={(checked) => handleToggleActive(service, checked)}
+                    disabled={saving}
+                    aria-label={`Offer ${service.name}`}
+                  />
+                  <Button size="sm" variant="ghost" onClick={() => setEditing(service)} disabled={saving}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(service)} disabled={saving}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{isNew ? "Add Service" : "Edit Service"}</DialogTitle>
+            <DialogDescription>Customers see the name, price and duration when booking.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Classic Haircut" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price ($)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="duration"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duration (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step={5} min={5} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SERVICE_CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg bg-muted/30 p-3">
+                    <FormLabel>Available for booking</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Service
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ServiceCatalogEditor;
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Clock, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Service } from "@/lib/services";
+
+interface ServicePickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shopName: string;
+  services: Service[];
+  onConfirm: (service: Service) => Promise<void>;
+}
+
+const ServicePickerDialog = ({ open, onOpenChange, shopName, services, onConfirm }: ServicePickerDialogProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setSelectedId(services[0]?.id ?? null);
+  }, [open, services]);
+
+  const selected = services.find(s => s.id === selectedId);
+
+  const handleConfirm = async () => {
+    if (!selected) return;
+    setSubmitting(true);
+    try {
+      await onConfirm(selected);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Choose a service</DialogTitle>
+          <DialogDescription>Select what you'd like at {shopName}.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {services.map((service) => (
+            <button
+              key={service.id}
+              type="button"
+              onClick={() => setSelectedId(service.id)}
+              className={cn(
+                "w-full flex items-center justify-between p-3 rounded-lg border text-left transition-colors",
+                service.id === selectedId ? "border-primary bg-primary/5" : "border-input hover:border-primary/50"
+              )}
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{service.name}</span>
+                  <Badge variant="outline" className="text-xs">{service.category}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  {service.duration} min
+                </p>
+              </div>
+              <span className="font-semibold">${service.price}</span>
+            </button>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!selected || submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Join Queue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ServicePickerDialog;
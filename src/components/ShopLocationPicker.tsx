@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useState } from "react";
+import L from "leaflet";
+import { MapContainer, Marker, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, LocateFixed } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { geocodeShop, GeocodeError, updateShopLocation, type ShopLocation } from "@/lib/geocoding";
+import { MAP_TILE_ATTRIBUTION, MAP_TILE_URL } from "@/lib/map";
+
+interface ShopLocationPickerProps {
+  shop: {
+    id: string;
+    shop_address: string;
+    latitude: number | null;
+    longitude: number | null;
+  };
+  onChange: (location: ShopLocation) => void;
+}
+
+const pinIcon = L.divIcon({
+  className: "",
+  html: '<span class="block h-6 w-6 rounded-full border-4 border-white bg-primary shadow-medium"></span>',
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+});
+
+const toLocation = (latlng: L.LatLng): ShopLocation => ({
+  latitude: Number(latlng.lat.toFixed(6)),
+  longitude: Number(L.Util.wrapNum(latlng.lng, [-180, 180], true).toFixed(6)),
+});
+
+const ClickToPlace = ({ onPlace }: { onPlace: (location: ShopLocation) => void }) => {
+  useMapEvents({ click: (event) => onPlace(toLocation(event.latlng)) });
+  return null;
+};
+
+/** Keeps the saved or geocoded point in view when it changes from outside the map. */
+const CenterOn = ({ location }: { location: ShopLocation | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (location) map.setView([location.latitude, location.longitude], Math.max(map.getZoom(), 15));
+  }, [map, location]);
+
+  return null;
+};
+
+const ShopLocationPicker = ({ shop, onChange }: ShopLocationPickerProps) => {
+  const { toast } = useToast();
+  const saved = useMemo<ShopLocation | null>(
+    () => (shop.latitude != null && shop.longitude != null
+      ? { latitude: Number(shop.latitude), longitude: Number(shop.longitude) }
+      : null),
+    [shop.latitude, shop.longitude]
+  );
+  const [pin, setPin] = useState<ShopLocation | null>(saved);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    setPin(saved);
+  }, [saved]);
+
+  const isDirty = !!pin && (pin.latitude !== saved?.latitude || pin.longitude !== saved?.longitude);
+
+  const showError = (error: unknown) => {
+    const { title, description } = error instanceof GeocodeError
+      ? error
+      : new GeocodeError("unknown");
+
+    toast({
+      title,
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleLocate = async () => {
+    setLocating(true);
+
+    try {
+      const location = await geocodeShop(shop.id);
+
+      toast({
+        title: "Location Updated",
+        description: "Your shop was placed from its address. Drag the pin if it's not quite right.",
+      });
+      onChange(location);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!pin) return;
+    setSaving(true);
+
+    try {
+      await updateShopLocation(shop.id, pin);
+
+      toast({
+        title: "Location Saved",
+        description: "Customers will see your shop at this spot.",
+      });
+      onChange(pin);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-soft bg-gradient-card border-0 md:col-span-2">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Shop Location</CardTitle>
+          <CardDescription>Click the map or drag the pin to where customers should find you</CardDescription>
+        </div>
+        {!saved && <Badge variant="warning">Not on the map</Badge>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* z-0 keeps Leaflet's panes below dialogs and dropdowns */}
+        <div className="relative z-0 h-72 overflow-hidden rounded-lg">
+          <MapContainer
+            center={saved ? [saved.latitude, saved.longitude] : [20, 0]}
+            zoom={saved ? 15 : 2}
+            className="h-full w-full"
+          >
+            <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
+            <ClickToPlace onPlace={setPin} />
+            <CenterOn location={saved} />
+            {pin && (
+              <Marker
+                position={[pin.latitude, pin.longitude]}
+                icon={pinIcon}
+                draggable
+                eventHandlers={{ dragend: (event) => setPin(toLocation(event.target.getLatLng())) }}
+              />
+            )}
+          </MapContainer>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {pin ? `${pin.latitude.toFixed(5)}, ${pin.longitude.toFixed(5)}` : shop.shop_address}
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleLocate} disabled={locating || saving}>
+              {locating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LocateFixed className="mr-2 h-4 w-4" />}
+              Locate from Address
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setPin(saved)} disabled={!isDirty || saving}>
+              Discard
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={!isDirty || saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Pin
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShopLocationPicker;
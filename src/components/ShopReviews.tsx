@@ -0,0 +1,117 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, MessageSquare, Store } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useShopReviews } from "@/hooks/use-shop-reviews";
+import { reviewTagLabel } from "@/lib/reviews";
+import ReportReviewDialog from "@/components/ReportReviewDialog";
+import StarRating from "@/components/StarRating";
+
+interface ShopReviewsProps {
+  shopId: string;
+  ratingAvg: number | null;
+  totalReviews: number | null;
+}
+
+const ShopReviews = ({ shopId, ratingAvg, totalReviews }: ShopReviewsProps) => {
+  const { user } = useAuth();
+  const { reviews, breakdown, hasMore, loading, loadMore } = useShopReviews(shopId);
+  const ratedCount = breakdown.ratings.reduce((sum, count) => sum + count, 0);
+
+  return (
+    <Card className="shadow-soft bg-gradient-card border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Reviews
+        </CardTitle>
+        <CardDescription>What customers say after their visit</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="flex items-center gap-4">
+            <span className="text-4xl font-bold">{ratingAvg ? Number(ratingAvg).toFixed(1) : "–"}</span>
+            <div>
+              <StarRating value={ratingAvg ?? 0} />
+              <p className="text-sm text-muted-foreground mt-1">{totalReviews ?? 0} reviews</p>
+            </div>
+          </div>
+          <div className="space-y-1">
+            {[5, 4, 3, 2, 1].map((star) => {
+              const count = breakdown.ratings[star - 1];
+
+              return (
+                <div key={star} className="flex items-center gap-2 text-sm">
+                  <span className="w-3 text-muted-foreground">{star}</span>
+                  <Progress value={ratedCount > 0 ? (count / ratedCount) * 100 : 0} className="h-2" />
+                  <span className="w-8 text-right text-muted-foreground">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {breakdown.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {breakdown.tags.map(({ tag, count }) => (
+              <Badge key={tag} variant="outline">
+                {reviewTagLabel(tag)} · {count}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {reviews.length === 0 && !loading && (
+            <p className="text-sm text-muted-foreground">No reviews yet. Be the first after your visit!</p>
+          )}
+          {reviews.map((review) => (
+            <div key={review.id} className="p-4 rounded-lg bg-muted/30 space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{review.reviewer_name}</span>
+                  <StarRating value={review.rating} />
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-xs text-muted-foreground">
+                    {review.created_at ? new Date(review.created_at).toLocaleDateString() : ""}
+                  </span>
+                  {user && user.id !== review.user_id && (
+                    <ReportReviewDialog reviewId={review.id} reporterId={user.id} />
+                  )}
+                </div>
+              </div>
+              {review.tags && review.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {review.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="text-xs">{reviewTagLabel(tag)}</Badge>
+                  ))}
+                </div>
+              )}
+              {review.review_text && <p className="text-sm whitespace-pre-line">{review.review_text}</p>}
+              {review.response && (
+                <div className="ml-4 pl-3 border-l-2 border-primary/30 text-sm">
+                  <p className="font-medium flex items-center gap-1">
+                    <Store className="h-3 w-3" />
+                    Reply from the shop
+                  </p>
+                  <p className="text-muted-foreground whitespace-pre-line">{review.response.response_text}</p>
+                </div>
+              )}
+            </div>
+          ))}
+          {loading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />}
+          {hasMore && !loading && (
+            <Button variant="outline" className="w-full" onClick={loadMore}>
+              Show More Reviews
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShopReviews;
@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { History, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatSettingValue,
+  SETTING_LABELS,
+  shopSettingsSchema,
+  type ShopSettings,
+} from "@/lib/shop-settings";
+import { geocodeShop, GeocodeError, type ShopLocation } from "@/lib/geocoding";
+import type { Tables } from "@/integrations/supabase/types";
+
+interface ShopSettingsFormProps {
+  shop: ShopSettings & { id: string };
+  onChange: (settings: ShopSettings) => void;
+  /** Called with the new coordinates once an edited address has been located. */
+  onLocationChange: (location: ShopLocation) => void;
+}
+
+const pickSettings = (shop: ShopSettings): ShopSettings => ({
+  shop_name: shop.shop_name,
+  shop_address: shop.shop_address,
+  max_queue_limit: shop.max_queue_limit,
+  avg_service_duration: shop.avg_service_duration,
+  chair_count: shop.chair_count,
+});
+
+const ShopSettingsForm = ({ shop, onChange, onLocationChange }: ShopSettingsFormProps) => {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const [history, setHistory] = useState<Tables<"shop_settings_audit">[]>([]);
+
+  const form = useForm<ShopSettings>({
+    resolver: zodResolver(shopSettingsSchema),
+    defaultValues: pickSettings(shop),
+  });
+
+  const { isDirty, dirtyFields } = form.formState;
+
+  const fetchHistory = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('shop_settings_audit')
+      .select('*')
+      .eq('shop_id', shop.id)
+      .order('changed_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error("Error fetching settings history:", error);
+      return;
+    }
+
+    setHistory(data || []);
+  }, [shop.id]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  // Warn before leaving the page with unsaved edits
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  // A new address usually means a new spot on the map
+  const relocate = async () => {
+    try {
+      onLocationChange(await geocodeShop(shop.id));
+    } catch (error) {
+      const { title, description } = error instanceof GeocodeError
+        ? error
+        : new GeocodeError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (values: ShopSettings) => {
+    const previous = pickSettings(shop);
+    const changes = Object.fromEntries(
+      Object.keys(dirtyFields).map((field) => [field, values[field as keyof ShopSettings]])
+    ) as Partial<ShopSettings>;
+
+    // Apply optimistically; rolled back below if the save fails
+    onChange(values);
+    form.reset(values);
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('barber_shops')
+        .update(changes)
+        .eq('id', shop.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Settings Saved",
+        description: "Your shop settings have been updated.",
+      });
+      fetchHistory();
+      if (changes.shop_address !== undefined) relocate();
+    } catch (error) {
+      console.error("Error saving shop settings:", error);
+      onChange(previous);
+      // Keep the barber's edits in the form so they can fix and retry
+      form.reset(previous);
+      form.reset(values, { keepDefaultValues: true });
+      toast({
+        title: "Save Failed",
+        description: "Failed to update your shop settings. Your changes were not saved.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-soft bg-gradient-card border-0 md:col-span-2">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Shop Details</CardTitle>
+          <CardDescription>Your shop's public details and queue settings</CardDescription>
+        </div>
+        {isDirty && <Badge variant="outline">Unsaved changes</Badge>}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="shop_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Shop Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="shop_address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="max_queue_limit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Queue Limit</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={100} {...field} />
+                    </FormControl>
+                    <FormDescription>Customers allowed to wait at once</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="avg_service_duration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Avg Service Duration (minutes)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={5} max={480} step={5} {...field} />
+                    </FormControl>
+                    <FormDescription>Used when a booking has no service</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="chair_count"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chairs</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={20} {...field} />
+                    </FormControl>
+                    <FormDescription>Customers served at the same time</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => form.reset()} disabled={!isDirty || saving}>
+                Discard
+              </Button>
+              <Button type="submit" disabled={!isDirty || saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Changes
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        {history.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-semibold flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Recent changes
+            </h4>
+            <div className="space-y-2">
+              {history.map((entry) => {
+                const from = formatSettingValue(entry.old_value);
+                const to = formatSettingValue(entry.new_value);
+
+                return (
+                  <div key={entry.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/30 text-sm">
+                    <div>
+                      <span className="font-medium">{SETTING_LABELS[entry.field] ?? entry.field}</span>
+                      <span className="text-muted-foreground">
+                        {from === null || to === null ? " updated" : `: ${from} → ${to}`}
+                      </span>
+                    </div>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {new Date(entry.changed_at).toLocaleString()}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShopSettingsForm;
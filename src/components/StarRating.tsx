@@ -0,0 +1,51 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  value: number;
+  /** Makes the stars clickable. */
+  onChange?: (value: number) => void;
+  className?: string;
+  starClassName?: string;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+const StarRating = ({ value, onChange, className, starClassName = "h-4 w-4" }: StarRatingProps) => {
+  const renderStar = (star: number) => (
+    <Star
+      className={cn(
+        starClassName,
+        star <= Math.round(value) ? "text-warning fill-warning" : "text-muted-foreground"
+      )}
+    />
+  );
+
+  if (!onChange) {
+    return (
+      <div className={cn("flex items-center gap-0.5", className)} aria-label={`${value} out of 5 stars`}>
+        {STARS.map((star) => <span key={star}>{renderStar(star)}</span>)}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("flex items-center gap-1", className)} role="radiogroup" aria-label="Rating">
+      {STARS.map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star > 1 ? "s" : ""}`}
+          onClick={() => onChange(star)}
+          className="rounded-sm transition-transform hover:scale-110 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        >
+          {renderStar(star)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default StarRating;
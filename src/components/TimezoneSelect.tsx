@@ -0,0 +1,47 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const COMMON_TIMEZONES = [
+  "UTC",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Kolkata",
+  "Asia/Dubai",
+  "Asia/Singapore",
+  "Australia/Sydney",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+];
+
+interface TimezoneSelectProps {
+  id?: string;
+  value: string;
+  onChange: (timezone: string) => void;
+}
+
+/** IANA timezone picker; keeps the current value listed even if it isn't a common zone. */
+const TimezoneSelect = ({ id, value, onChange }: TimezoneSelectProps) => {
+  const timezones = COMMON_TIMEZONES.includes(value) ? COMMON_TIMEZONES : [value, ...COMMON_TIMEZONES];
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {timezones.map((tz) => (
+          <SelectItem key={tz} value={tz}>{tz}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TimezoneSelect;
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { addWalkIn, AddWalkInError } from "@/lib/queue";
+import type { Service } from "@/lib/services";
+
+const walkInSchema = z.object({
+  name: z.string().trim().min(1, "Enter the customer's name").max(60, "Keep the name under 60 characters"),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^[+\d][\d\s()-]{5,19}$/, "Enter a valid phone number")
+    .or(z.literal("")),
+  serviceId: z.string(),
+});
+
+type WalkInValues = z.infer<typeof walkInSchema>;
+
+interface WalkInDialogProps {
+  shopId: string;
+  services: Service[];
+}
+
+const WalkInDialog = ({ shopId, services }: WalkInDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const form = useForm<WalkInValues>({
+    resolver: zodResolver(walkInSchema),
+    defaultValues: { name: "", phone: "", serviceId: services[0]?.id ?? "" },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) form.reset({ name: "", phone: "", serviceId: services[0]?.id ?? "" });
+    setOpen(next);
+  };
+
+  const handleSubmit = async (values: WalkInValues) => {
+    setSubmitting(true);
+
+    try {
+      await addWalkIn(shopId, {
+        name: values.name,
+        phone: values.phone,
+        serviceId: values.serviceId || undefined,
+      });
+
+      toast({
+        title: "Walk-in Added",
+        description: `${values.name} has been added to the queue.`,
+      });
+      setOpen(false);
+    } catch (error) {
+      const { title, description } = error instanceof AddWalkInError
+        ? error
+        : new AddWalkInError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="secondary">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Walk-in
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Walk-in Customer</DialogTitle>
+          <DialogDescription>Walk-ins join the back of the queue and count toward wait times.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Customer's name" autoFocus {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone (optional)</FormLabel>
+                  <FormControl>
+                    <Input type="tel" placeholder="To call them when it's their turn" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {services.length > 0 && (
+              <FormField
+                control={form.control}
+                name="serviceId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Service</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a service" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {services.map((service) => (
+                          <SelectItem key={service.id} value={service.id}>
+                            {service.name} · ${service.price} · {service.duration} min
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add to Queue
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WalkInDialog;
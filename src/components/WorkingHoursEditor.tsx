@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CalendarX, Coffee, Loader2, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import TimezoneSelect from "@/components/TimezoneSelect";
+import {
+  defaultWorkingHours,
+  parseWorkingHours,
+  WEEKDAYS,
+  workingHoursSchema,
+  type TimeRange,
+  type WorkingHours,
+} from "@/lib/working-hours";
+import type { Json } from "@/integrations/supabase/types";
+
+interface RangeListProps {
+  ranges: TimeRange[];
+  onChange: (ranges: TimeRange[]) => void;
+}
+
+const RangeList = ({ ranges, onChange }: RangeListProps) => (
+  <div className="space-y-2">
+    {ranges.map((range, index) => (
+      <div key={index} className="flex items-center gap-2">
+        <Input
+          type="time"
+          value={range.open}
+          onChange={(e) => onChange(ranges.map((r, i) => (i === index ? { ...r, open: e.target.value } : r)))}
+          className="h-9 w-32"
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          type="time"
+          value={range.close}
+          onChange={(e) => onChange(ranges.map((r, i) => (i === index ? { ...r, close: e.target.value } : r)))}
+          className="h-9 w-32"
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => onChange(ranges.filter((_, i) => i !== index))}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    ))}
+  </div>
+);
+
+interface WorkingHoursEditorProps {
+  shopId: string;
+  workingHours: Json | null;
+  onChange: (workingHours: WorkingHours) => void;
+}
+
+const WorkingHoursEditor = ({ shopId, workingHours, onChange }: WorkingHoursEditorProps) => {
+  const { toast } = useToast();
+  const [schedule, setSchedule] = useState<WorkingHours>(() => parseWorkingHours(workingHours) ?? defaultWorkingHours());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setSchedule(parseWorkingHours(workingHours) ?? defaultWorkingHours());
+  }, [workingHours]);
+
+  const updateDay = (day: typeof WEEKDAYS[number], patch: Partial<WorkingHours["days"][typeof day]>) => {
+    setSchedule(prev => ({ ...prev, days: { ...prev.days, [day]: { ...prev.days[day], ...patch } } }));
+  };
+
+  const updateException = (index: number, patch: Partial<WorkingHours["exceptions"][number]>) => {
+    setSchedule(prev => ({
+      ...prev,
+      exceptions: prev.exceptions.map((e, i) => (i === index ? { ...e, ...patch } : e)),
+    }));
+  };
+
+  const handleSave = async () => {
+    const result = workingHoursSchema.safeParse(schedule);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      toast({
+        title: "Check your hours",
+        description: `${issue.path.join(' ')}: ${issue.message}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('barber_shops')
+        .update({ working_hours: result.data })
+        .eq('id', shopId);
+
+      if (error) throw error;
+
+      onChange(result.data);
+      toast({
+        title: "Hours Saved",
+        description: "Customers will now see your updated opening hours.",
+      });
+    } catch (error) {
+      console.error("Error saving working hours:", error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to update your working hours. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-soft bg-gradient-card border-0 md:col-span-2">
+      <CardHeader>
+        <CardTitle>Working Hours</CardTitle>
+        <CardDescription>Customers can only join your queue while you're open</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="max-w-xs space-y-2">
+          <Label>Timezone</Label>
+          <TimezoneSelect value={schedule.timezone} onChange={(timezone) => setSchedule(prev => ({ ...prev, timezone }))} />
+        </div>
+
+        <div className="space-y-4">
+          {WEEKDAYS.map((day) => {
+            const daySchedule = schedule.days[day];
+            const isOpen = daySchedule.ranges.length > 0;
+
+            return (
+              <div key={day} className="grid md:grid-cols-[140px_1fr] gap-3 p-3 rounded-lg bg-muted/30">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={isOpen}
+                    onCheckedChange={(checked) => updateDay(day, {
+                      ranges: checked ? [{ open: "09:00", close: "18:00" }] : [],
+                      breaks: checked ? daySchedule.breaks : [],
+                    })}
+                    aria-label={`Open on ${day}`}
+                  />
+                  <span className="font-medium capitalize">{day}</span>
+                </div>
+
+                {isOpen ? (
+                  <div className="space-y-3">
+                    <RangeList ranges={daySchedule.ranges} onChange={(ranges) => updateDay(day, { ranges })} />
+                    {daySchedule.breaks.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Coffee className="h-3 w-3" />
+                          Breaks
+                        </p>
+                        <RangeList ranges={daySchedule.breaks} onChange={(breaks) => updateDay(day, { breaks })} />
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateDay(day, { ranges: [...daySchedule.ranges, { open: "17:00", close: "20:00" }] })}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add hours
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateDay(day, { breaks: [...daySchedule.breaks, { open: "13:00", close: "14:00" }] })}
+                      >
+                        <Coffee className="h-4 w-4 mr-1" />
+                        Add break
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground self-center">Closed</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="font-semibold">Holidays & exceptions</h4>
+              <p className="text-sm text-muted-foreground">Override your regular hours on specific dates</p>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setSchedule(prev => ({
+                ...prev,
+                exceptions: [...prev.exceptions, { date: new Date().toISOString().split('T')[0], label: "", ranges: [] }],
+              }))}
+            >
+              <CalendarX className="h-4 w-4 mr-1" />
+              Add date
+            </Button>
+          </div>
+
+          {schedule.exceptions.map((exception, index) => {
+            const isOpen = exception.ranges.length > 0;
+
+            return (
+              <div key={index} className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-muted/30">
+                <Input
+                  type="date"
+                  value={exception.date}
+                  onChange={(e) => updateException(index, { date: e.target.value })}
+                  className="h-9 w-40"
+                />
+                <Input
+                  value={exception.label ?? ""}
+                  onChange={(e) => updateException(index, { label: e.target.value })}
+                  placeholder="Label (e.g. Public holiday)"
+                  className="h-9 w-52"
+                />
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={isOpen}
+                    onCheckedChange={(checked) => updateException(index, {
+                      ranges: checked ? [{ open: "10:00", close: "14:00" }] : [],
+                    })}
+                    aria-label="Open on this date"
+                  />
+                  <span className="text-sm">{isOpen ? "Special hours" : "Closed all day"}</span>
+                </div>
+                {isOpen && (
+                  <RangeList ranges={exception.ranges} onChange={(ranges) => updateException(index, { ranges })} />
+                )}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto"
+                  onClick={() => setSchedule(prev => ({
+                    ...prev,
+                    exceptions: prev.exceptions.filter((_, i) => i !== index),
+                  }))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Hours
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkingHoursEditor;
@@ -0,0 +1,27 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+import type { UserRole } from "@/lib/roles";
+
+export interface AuthState {
+  session: Session | null;
+  user: User | null;
+  profile: Tables<"profiles"> | null;
+  role: UserRole | null;
+  /** True until the initial session (and its profile) has been resolved. */
+  loading: boolean;
+  error: Error | null;
+  refreshProfile: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+/** Current session, user, profile and role, kept in sync by AuthProvider. */
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type FavoriteShop = Tables<"barber_shops">;
+
+/**
+ * The signed-in customer's saved shops. toggleFavorite updates the heart
+ * immediately and rolls back (rethrowing the error) if the write fails.
+ */
+export function useFavorites(userId: string | null | undefined) {
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
+  const [shops, setShops] = useState<FavoriteShop[]>([]);
+  // Latest ids, so concurrent toggles don't act on a stale set
+  const idsRef = useRef(favoriteIds);
+  idsRef.current = favoriteIds;
+
+  const refetch = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('favorites')
+        .select('shop_id, barber_shops (*)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setFavoriteIds(new Set((data || []).map(f => f.shop_id)));
+      setShops((data || []).flatMap(f => (f.barber_shops ? [f.barber_shops] : [])));
+    } catch (error) {
+      console.error("Error fetching favorites:", error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setFavoriteIds(new Set());
+      setShops([]);
+      return;
+    }
+
+    refetch();
+  }, [userId, refetch]);
+
+  const setFavorite = (shopId: string, favorite: boolean) => {
+    setFavoriteIds(prev => {
+      const next = new Set(prev);
+      if (favorite) next.add(shopId);
+      else next.delete(shopId);
+      return next;
+    });
+  };
+
+  const toggleFavorite = useCallback(async (shopId: string) => {
+    if (!userId) return;
+
+    const wasFavorite = idsRef.current.has(shopId);
+    const previousShops = shops;
+    setFavorite(shopId, !wasFavorite);
+    if (wasFavorite) setShops(prev => prev.filter(s => s.id !== shopId));
+
+    try {
+      const { error } = wasFavorite
+        ? await supabase.from('favorites').delete().eq('user_id', userId).eq('shop_id', shopId)
+        : await supabase.from('favorites').upsert(
+            { user_id: userId, shop_id: shopId },
+            { onConflict: 'user_id,shop_id', ignoreDuplicates: true }
+          );
+
+      if (error) throw error;
+
+      // The saved shop's details are only needed for the Favorites list
+      if (!wasFavorite) refetch();
+    } catch (error) {
+      console.error("Error updating favorite:", error);
+      setFavorite(shopId, wasFavorite);
+      setShops(previousShops);
+      throw error;
+    }
+  }, [userId, shops, refetch]);
+
+  const isFavorite = useCallback((shopId: string) => favoriteIds.has(shopId), [favoriteIds]);
+
+  return { shops, isFavorite, toggleFavorite, refetch };
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { subscribeToChanges } from "@/lib/realtime";
+
+type BookingRow = Tables<"bookings">;
+
+export interface ActiveBooking extends BookingRow {
+  shop: {
+    shop_name: string;
+    shop_address: string;
+  };
+}
+
+const ACTIVE_STATUSES: BookingRow["status"][] = ["waiting", "in_progress"];
+
+const byJoinedAt = (a: BookingRow, b: BookingRow) =>
+  new Date(a.joined_at ?? 0).getTime() - new Date(b.joined_at ?? 0).getTime();
+
+/**
+ * Live view of the signed-in customer's waiting and in-progress bookings.
+ * `onChange` fires whenever one of the user's bookings changes so callers can
+ * refresh derived lists (e.g. booking history once a booking completes).
+ */
+export function useMyActiveBookings(userId: string | null | undefined, onChange?: () => void) {
+  const [bookings, setBookings] = useState<ActiveBooking[]>([]);
+  const shopCache = useRef(new Map<string, ActiveBooking["shop"]>());
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const withShops = useCallback(async (rows: BookingRow[]): Promise<ActiveBooking[]> => {
+    const missing = [...new Set(rows.map(b => b.shop_id))]
+      .filter(id => !shopCache.current.has(id));
+
+    if (missing.length > 0) {
+      const { data: shops, error } = await supabase
+        .from('barber_shops')
+        .select('id, shop_name, shop_address')
+        .in('id', missing);
+
+      if (error) {
+        console.error("Error fetching booking shops:", error);
+      }
+
+      shops?.forEach(s => {
+        shopCache.current.set(s.id, { shop_name: s.shop_name, shop_address: s.shop_address });
+      });
+    }
+
+    return rows.map(booking => ({
+      ...booking,
+      shop: shopCache.current.get(booking.shop_id) ?? { shop_name: 'Barber Shop', shop_address: '' },
+    }));
+  }, []);
+
+  const refetch = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select('*')
+        .eq('user_id', userId)
+        .in('status', ACTIVE_STATUSES)
+        .order('joined_at', { ascending: true });
+
+      if (error) throw error;
+
+      setBookings(await withShops(data || []));
+    } catch (error) {
+      console.error("Error fetching active bookings:", error);
+    }
+  }, [userId, withShops]);
+
+  const applyChange = useCallback(async (payload: RealtimePostgresChangesPayload<BookingRow>) => {
+    onChangeRef.current?.();
+
+    if (payload.eventType === 'DELETE') {
+      const removedId = payload.old.id;
+      setBookings(prev => prev.filter(b => b.id !== removedId));
+      return;
+    }
+
+    const row = payload.new;
+    if (!ACTIVE_STATUSES.includes(row.status)) {
+      setBookings(prev => prev.filter(b => b.id !== row.id));
+      return;
+    }
+
+    const [booking] = await withShops([row]);
+    setBookings(prev => [...prev.filter(b => b.id !== booking.id), booking].sort(byJoinedAt));
+  }, [withShops]);
+
+  useEffect(() => {
+    if (!userId) {
+      setBookings([]);
+      return;
+    }
+
+    return subscribeToChanges<BookingRow>({
+      channelName: `my-bookings:${userId}`,
+      table: 'bookings',
+      filter: `user_id=eq.${userId}`,
+      onChange: (payload) => { applyChange(payload); },
+      onSubscribed: refetch,
+    });
+  }, [userId, applyChange, refetch]);
+
+  return { bookings, refetch };
+}
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export const NEARBY_PAGE_SIZE = 12;
+
+/** Search radii offered in the Nearby Shops tab, in km. nearby_shops allows up to 100. */
+export const NEARBY_RADIUS_OPTIONS = [2, 5, 10, 25, 50] as const;
+
+type NearbyShopRow = Database["public"]["Functions"]["nearby_shops"]["Returns"][number];
+
+/** A shop with its distance from the customer, or null when their location is unknown. */
+export type NearbyShop = Omit<NearbyShopRow, "distance_km"> & { distance_km: number | null };
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Active shops within radiusKm of location, nearest first, a page at a time.
+ * Without a location there is nothing to measure from, so every active shop is
+ * listed by rating instead.
+ */
+export function useNearbyShops(location: Coordinates | null, radiusKm: number) {
+  const [shops, setShops] = useState<NearbyShop[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  // Responses for an older location or radius are dropped
+  const requestRef = useRef(0);
+
+  const fetchPage = useCallback(async (offset: number) => {
+    const request = ++requestRef.current;
+    setLoading(true);
+
+    try {
+      let page: NearbyShop[];
+
+      if (location) {
+        // One extra row tells whether another page exists
+        const { data, error } = await supabase.rpc('nearby_shops', {
+          lat: location.lat,
+          lng: location.lng,
+          radius_km: radiusKm,
+          result_limit: NEARBY_PAGE_SIZE + 1,
+          result_offset: offset,
+        });
+
+        if (error) throw error;
+        page = data || [];
+      } else {
+        const { data, error } = await supabase
+          .from('barber_shops')
+          .select('id, shop_name, shop_address, latitude, longitude, services, working_hours, cover_image_url, rating_avg, total_reviews, total_bookings')
+          .eq('is_active', true)
+          .order('rating_avg', { ascending: false })
+          .order('id')
+          .range(offset, offset + NEARBY_PAGE_SIZE);
+
+        if (error) throw error;
+
+        // Same counts nearby_shops returns, for just this page
+        const { data: summaries, error: summaryError } = await supabase
+          .from('shop_queue_summary')
+          .select('shop_id, waiting_count, in_progress_count, estimated_wait_time')
+          .in('shop_id', (data || []).map(shop => shop.id));
+
+        if (summaryError) throw summaryError;
+        const summaryByShop = new Map((summaries || []).map(s => [s.shop_id, s]));
+
+        page = (data || []).map(shop => {
+          const summary = summaryByShop.get(shop.id);
+          return {
+            ...shop,
+            distance_km: null,
+            waiting_count: summary?.waiting_count ?? 0,
+            in_progress_count: summary?.in_progress_count ?? 0,
+            estimated_wait_time: summary?.estimated_wait_time ?? 0,
+          };
+        });
+      }
+
+      if (request !== requestRef.current) return;
+
+      const nextShops = page.slice(0, NEARBY_PAGE_SIZE);
+      setShops(prev => (offset === 0 ? nextShops : [...prev, ...nextShops]));
+      setHasMore(page.length > NEARBY_PAGE_SIZE);
+    } catch (error) {
+      console.error("Error fetching nearby shops:", error);
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [location, radiusKm]);
+
+  useEffect(() => {
+    setShops([]);
+    fetchPage(0);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => fetchPage(shops.length), [fetchPage, shops.length]);
+
+  return { shops, hasMore, loading, loadMore };
+}
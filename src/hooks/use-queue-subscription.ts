@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { subscribeToChanges } from "@/lib/realtime";
+
+type BookingRow = Tables<"bookings">;
+
+export interface QueueBooking extends BookingRow {
+  profiles: {
+    name: string;
+    phone: string;
+  };
+}
+
+const ACTIVE_STATUSES: BookingRow["status"][] = ["waiting", "in_progress"];
+
+const isActive = (booking: Pick<BookingRow, "status">) =>
+  ACTIVE_STATUSES.includes(booking.status);
+
+const byJoinedAt = (a: BookingRow, b: BookingRow) =>
+  new Date(a.joined_at ?? 0).getTime() - new Date(b.joined_at ?? 0).getTime();
+
+/**
+ * Keeps the active queue (waiting + in_progress bookings) of a shop in sync
+ * with the database through Supabase realtime. A full refetch runs every time
+ * the channel (re)subscribes so changes missed while offline are reconciled.
+ * `onChange` receives every raw change, before it is merged into the queue.
+ */
+export function useQueueSubscription(
+  shopId: string | null | undefined,
+  onChange?: (payload: RealtimePostgresChangesPayload<BookingRow>) => void
+) {
+  const [queue, setQueue] = useState<QueueBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [connected, setConnected] = useState(false);
+  const profileCache = useRef(new Map<string, QueueBooking["profiles"]>());
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const withProfiles = useCallback(async (bookings: BookingRow[]): Promise<QueueBooking[]> => {
+    const missing = [...new Set(bookings.map(b => b.user_id))]
+      .filter((id): id is string => !!id && !profileCache.current.has(id));
+
+    if (missing.length > 0) {
+      const { data: profiles, error } = await supabase
+        .from('profiles')
+        .select('user_id, name, phone')
+        .in('user_id', missing);
+
+      if (error) {
+        console.error("Error fetching queue profiles:", error);
+      }
+
+      profiles?.forEach(p => {
+        profileCache.current.set(p.user_id, { name: p.name, phone: p.phone || '' });
+      });
+    }
+
+    return bookings.map(booking => ({
+      ...booking,
+      // Walk-in guests have no profile; their details live on the booking
+      profiles: booking.user_id
+        ? profileCache.current.get(booking.user_id) ?? { name: 'Unknown Customer', phone: '' }
+        : { name: booking.guest_name || 'Walk-in', phone: booking.guest_phone || '' },
+    }));
+  }, []);
+
+  const refetch = useCallback(async () => {
+    if (!shopId) return;
+
+    try {
+      const { data: bookings, error } = await supabase
+        .from('bookings')
+        .select('*')
+        .eq('shop_id', shopId)
+        .in('status', ACTIVE_STATUSES)
+        .order('joined_at', { ascending: true });
+
+      if (error) throw error;
+
+      setQueue(await withProfiles(bookings || []));
+    } catch (error) {
+      console.error("Error fetching queue:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [shopId, withProfiles]);
+
+  const applyChange = useCallback(async (payload: RealtimePostgresChangesPayload<BookingRow>) => {
+    onChangeRef.current?.(payload);
+
+    if (payload.eventType === 'DELETE') {
+      const removedId = payload.old.id;
+      setQueue(prev => prev.filter(b => b.id !== removedId));
+      return;
+    }
+
+    const row = payload.new;
+    if (!isActive(row)) {
+      setQueue(prev => prev.filter(b => b.id !== row.id));
+      return;
+    }
+
+    const [booking] = await withProfiles([row]);
+    setQueue(prev => [...prev.filter(b => b.id !== booking.id), booking].sort(byJoinedAt));
+  }, [withProfiles]);
+
+  useEffect(() => {
+    if (!shopId) {
+      setQueue([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+
+    return subscribeToChanges<BookingRow>({
+      channelName: `queue:${shopId}`,
+      table: 'bookings',
+      filter: `shop_id=eq.${shopId}`,
+      onChange: (payload) => { applyChange(payload); },
+      onSubscribed: refetch,
+      onConnectionChange: setConnected,
+    });
+  }, [shopId, applyChange, refetch]);
+
+  return { queue, loading, connected, refetch };
+}
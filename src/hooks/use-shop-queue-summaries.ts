@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { subscribeToChanges } from "@/lib/realtime";
+
+export type ShopQueueSummary = Tables<"shop_queue_summary">;
+
+// Realtime accepts at most 100 values in an `in` filter
+const MAX_LIVE_SHOPS = 100;
+
+/**
+ * Live waiting / in-progress counts and projected wait for the given shops,
+ * keyed by shop id. Rows are maintained server-side by booking triggers. Only
+ * the first 100 ids are followed; callers fall back to their own snapshot.
+ */
+export function useShopQueueSummaries(shopIds: string[]) {
+  const [summaries, setSummaries] = useState<Record<string, ShopQueueSummary>>({});
+  // Callers build the id list on every render; the joined string is stable
+  const idKey = [...new Set(shopIds)].slice(0, MAX_LIVE_SHOPS).join(',');
+
+  const refetch = useCallback(async () => {
+    if (!idKey) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('shop_queue_summary')
+        .select('*')
+        .in('shop_id', idKey.split(','));
+
+      if (error) throw error;
+
+      setSummaries(Object.fromEntries((data || []).map(s => [s.shop_id, s])));
+    } catch (error) {
+      console.error("Error fetching queue summaries:", error);
+    }
+  }, [idKey]);
+
+  const applyChange = useCallback((payload: RealtimePostgresChangesPayload<ShopQueueSummary>) => {
+    if (payload.eventType === 'DELETE') {
+      const removedId = payload.old.shop_id;
+      setSummaries(({ [removedId]: _removed, ...rest }) => rest);
+      return;
+    }
+
+    const row = payload.new;
+    setSummaries(prev => ({ ...prev, [row.shop_id]: row }));
+  }, []);
+
+  useEffect(() => {
+    if (!idKey) {
+      setSummaries({});
+      return;
+    }
+
+    return subscribeToChanges<ShopQueueSummary>({
+      channelName: 'shop-queue-summary',
+      table: 'shop_queue_summary',
+      filter: `shop_id=in.(${idKey})`,
+      onChange: applyChange,
+      onSubscribed: refetch,
+    });
+  }, [idKey, applyChange, refetch]);
+
+  return { summaries, refetch };
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Review, ReviewResponse } from "@/lib/reviews";
+
+export const REVIEWS_PAGE_SIZE = 10;
+
+export interface ShopReview extends Review {
+  reviewer_name: string;
+  /** The shop owner's public reply, if any. */
+  response: ReviewResponse | null;
+}
+
+export interface ReviewBreakdown {
+  /** Review count per star rating, index 0 = 1 star. */
+  ratings: number[];
+  /** Tags with their review counts, most common first. */
+  tags: { tag: string; count: number }[];
+}
+
+const EMPTY_BREAKDOWN: ReviewBreakdown = { ratings: [0, 0, 0, 0, 0], tags: [] };
+
+// Reviews are public, but only the reviewer's first name is shown
+const firstName = (name: string | undefined) => name?.trim().split(/\s+/)[0] || "Customer";
+
+/** A shop's reviews, newest first, loaded a page at a time, plus its rating breakdown. */
+export function useShopReviews(shopId: string | undefined) {
+  const [reviews, setReviews] = useState<ShopReview[]>([]);
+  const [breakdown, setBreakdown] = useState<ReviewBreakdown>(EMPTY_BREAKDOWN);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPage = useCallback(async (offset: number) => {
+    if (!shopId) return;
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('*')
+        .eq('shop_id', shopId)
+        // Authors can still read their own hidden reviews, but they stay off the public page
+        .eq('is_hidden', false)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + REVIEWS_PAGE_SIZE);
+
+      if (error) throw error;
+
+      // One extra row tells whether another page exists
+      const page = (data || []).slice(0, REVIEWS_PAGE_SIZE);
+      const userIds = [...new Set(page.map(r => r.user_id))];
+      const { data: profiles, error: profilesError } = userIds.length > 0
+        ? await supabase.from('profiles').select('user_id, name').in('user_id', userIds)
+        : { data: [], error: null };
+
+      if (profilesError) {
+        console.error("Error fetching reviewer names:", profilesError);
+      }
+
+      const reviewIds = page.map(r => r.id);
+      const { data: responses, error: responsesError } = reviewIds.length > 0
+        ? await supabase.from('review_responses').select('*').in('review_id', reviewIds)
+        : { data: [], error: null };
+
+      if (responsesError) {
+        console.error("Error fetching review responses:", responsesError);
+      }
+
+      const names = new Map((profiles || []).map(p => [p.user_id, p.name]));
+      const replies = new Map((responses || []).map(r => [r.review_id, r]));
+      const withNames = page.map(r => ({
+        ...r,
+        reviewer_name: firstName(names.get(r.user_id)),
+        response: replies.get(r.id) ?? null,
+      }));
+
+      setReviews(prev => (offset === 0 ? withNames : [...prev, ...withNames]));
+      setHasMore((data || []).length > REVIEWS_PAGE_SIZE);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [shopId]);
+
+  const fetchBreakdown = useCallback(async () => {
+    if (!shopId) return;
+
+    const { data, error } = await supabase.rpc('shop_review_breakdown', { shop_uuid: shopId });
+
+    if (error) {
+      console.error("Error fetching review breakdown:", error);
+      return;
+    }
+
+    const ratings = [0, 0, 0, 0, 0];
+    const tags: ReviewBreakdown["tags"] = [];
+    (data || []).forEach(row => {
+      if (row.kind === 'rating') ratings[Number(row.value) - 1] = Number(row.review_count);
+      else tags.push({ tag: row.value, count: Number(row.review_count) });
+    });
+
+    setBreakdown({ ratings, tags: tags.sort((a, b) => b.count - a.count) });
+  }, [shopId]);
+
+  useEffect(() => {
+    setReviews([]);
+    setBreakdown(EMPTY_BREAKDOWN);
+    fetchPage(0);
+    fetchBreakdown();
+  }, [fetchPage, fetchBreakdown]);
+
+  const loadMore = useCallback(() => fetchPage(reviews.length), [fetchPage, reviews.length]);
+
+  /** Shows a reply the shop owner just saved without refetching the page. */
+  const applyResponse = useCallback((response: ReviewResponse) => {
+    setReviews(prev => prev.map(r => (r.id === response.review_id ? { ...r, response } : r)));
+  }, []);
+
+  return { reviews, breakdown, hasMore, loading, loadMore, applyResponse };
+}
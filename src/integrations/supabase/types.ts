@@ -17,47 +17,78 @@ export type Database = {
       barber_registration_requests: {
         Row: {
           created_at: string | null
+          email: string | null
           id: string
           name: string
           phone: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           services_offered: string
           shop_address: string
+          shop_id: string | null
           shop_name: string
-          status: string | null
+          status: string
+          timezone: string | null
           working_hours: string
         }
         Insert: {
           created_at?: string | null
+          email?: string | null
           id?: string
           name: string
           phone: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           services_offered: string
           shop_address: string
+          shop_id?: string | null
           shop_name: string
-          status?: string | null
+          status?: string
+          timezone?: string | null
           working_hours: string
         }
         Update: {
           created_at?: string | null
+          email?: string | null
           id?: string
           name?: string
           phone?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           services_offered?: string
           shop_address?: string
+          shop_id?: string | null
           shop_name?: string
-          status?: string | null
+          status?: string
+          timezone?: string | null
           working_hours?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "barber_registration_requests_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "barber_shops"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       barber_shops: {
         Row: {
           avg_service_duration: number | null
+          chair_count: number
           cover_image_url: string | null
           created_at: string | null
+          geocode_failed_at: string | null
           id: string
           is_active: boolean | null
           latitude: number | null
+          learned_duration_median: number | null
+          learned_duration_p80: number | null
+          learned_duration_samples: number
           longitude: number | null
           max_queue_limit: number | null
           rating_avg: number | null
@@ -72,11 +103,16 @@ export type Database = {
         }
         Insert: {
           avg_service_duration?: number | null
+          chair_count?: number
           cover_image_url?: string | null
           created_at?: string | null
+          geocode_failed_at?: string | null
           id?: string
           is_active?: boolean | null
           latitude?: number | null
+          learned_duration_median?: number | null
+          learned_duration_p80?: number | null
+          learned_duration_samples?: number
           longitude?: number | null
           max_queue_limit?: number | null
           rating_avg?: number | null
@@ -91,11 +127,16 @@ export type Database = {
         }
         Update: {
           avg_service_duration?: number | null
+          chair_count?: number
           cover_image_url?: string | null
           created_at?: string | null
+          geocode_failed_at?: string | null
           id?: string
           is_active?: boolean | null
           latitude?: number | null
+          learned_duration_median?: number | null
+          learned_duration_p80?: number | null
+          learned_duration_samples?: number
           longitude?: number | null
           max_queue_limit?: number | null
           rating_avg?: number | null
@@ -112,49 +153,67 @@ export type Database = {
       }
       bookings: {
         Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           completed_at: string | null
           created_at: string | null
           estimated_wait_time: number | null
+          guest_name: string | null
+          guest_phone: string | null
           id: string
           joined_at: string | null
           queue_position: number | null
+          service_duration: number | null
           service_name: string
           service_price: number | null
           shop_id: string
           started_at: string | null
           status: Database["public"]["Enums"]["booking_status"] | null
           updated_at: string | null
-          user_id: string
+          user_id: string | null
         }
         Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           completed_at?: string | null
           created_at?: string | null
           estimated_wait_time?: number | null
+          guest_name?: string | null
+          guest_phone?: string | null
           id?: string
           joined_at?: string | null
           queue_position?: number | null
+          service_duration?: number | null
           service_name: string
           service_price?: number | null
           shop_id: string
           started_at?: string | null
           status?: Database["public"]["Enums"]["booking_status"] | null
           updated_at?: string | null
-          user_id: string
+          user_id?: string | null
         }
         Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           completed_at?: string | null
           created_at?: string | null
           estimated_wait_time?: number | null
+          guest_name?: string | null
+          guest_phone?: string | null
           id?: string
           joined_at?: string | null
           queue_position?: number | null
+          service_duration?: number | null
           service_name?: string
           service_price?: number | null
           shop_id?: string
           started_at?: string | null
           status?: Database["public"]["Enums"]["booking_status"] | null
           updated_at?: string | null
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -225,35 +284,187 @@ export type Database = {
         }
         Relationships: []
       }
+      registration_request_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          request_id: string
+          status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          request_id: string
+          status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          request_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_request_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "barber_registration_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_moderations: {
+        Row: {
+          action: string
+          moderated_at: string
+          moderated_by: string | null
+          notes: string | null
+          review_id: string
+        }
+        Insert: {
+          action: string
+          moderated_at?: string
+          moderated_by?: string | null
+          notes?: string | null
+          review_id: string
+        }
+        Update: {
+          action?: string
+          moderated_at?: string
+          moderated_by?: string | null
+          notes?: string | null
+          review_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_moderations_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: true
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          review_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_reports_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_responses: {
+        Row: {
+          created_at: string
+          id: string
+          responder_id: string | null
+          response_text: string
+          review_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          responder_id?: string | null
+          response_text: string
+          review_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          responder_id?: string | null
+          response_text?: string
+          review_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_responses_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: true
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reviews: {
         Row: {
           booking_id: string | null
           created_at: string | null
           id: string
+          is_hidden: boolean
           rating: number
           review_text: string | null
           shop_id: string
           tags: string[] | null
+          updated_at: string | null
           user_id: string
         }
         Insert: {
           booking_id?: string | null
           created_at?: string | null
           id?: string
+          is_hidden?: boolean
           rating: number
           review_text?: string | null
           shop_id: string
           tags?: string[] | null
+          updated_at?: string | null
           user_id: string
         }
         Update: {
           booking_id?: string | null
           created_at?: string | null
           id?: string
+          is_hidden?: boolean
           rating?: number
           review_text?: string | null
           shop_id?: string
           tags?: string[] | null
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: [
@@ -273,15 +484,364 @@ export type Database = {
           },
         ]
       }
+      service_duration_stats: {
+        Row: {
+          median_minutes: number | null
+          p80_minutes: number | null
+          sample_count: number
+          service_name: string
+          shop_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          median_minutes?: number | null
+          p80_minutes?: number | null
+          sample_count?: number
+          service_name: string
+          shop_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          median_minutes?: number | null
+          p80_minutes?: number | null
+          sample_count?: number
+          service_name?: string
+          shop_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_duration_stats_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "barber_shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shop_queue_summary: {
+        Row: {
+          estimated_wait_time: number
+          in_progress_count: number
+          shop_id: string
+          updated_at: string | null
+          waiting_count: number
+        }
+        Insert: {
+          estimated_wait_time?: number
+          in_progress_count?: number
+          shop_id: string
+          updated_at?: string | null
+          waiting_count?: number
+        }
+        Update: {
+          estimated_wait_time?: number
+          in_progress_count?: number
+          shop_id?: string
+          updated_at?: string | null
+          waiting_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_queue_summary_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: true
+            referencedRelation: "barber_shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shop_settings_audit: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          field: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          shop_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          field: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          shop_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          field?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          shop_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_settings_audit_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "barber_shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      add_walk_in: {
+        Args: {
+          shop_uuid: string
+          guest_name: string
+          guest_phone?: string
+          service_id?: string
+        }
+        Returns: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          completed_at: string | null
+          created_at: string | null
+          estimated_wait_time: number | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          joined_at: string | null
+          queue_position: number | null
+          service_duration: number | null
+          service_name: string
+          service_price: number | null
+          shop_id: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["booking_status"] | null
+          updated_at: string | null
+          user_id: string | null
+        }
+      }
+      cancel_booking: {
+        Args: { booking_uuid: string; reason?: string }
+        Returns: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          completed_at: string | null
+          created_at: string | null
+          estimated_wait_time: number | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          joined_at: string | null
+          queue_position: number | null
+          service_duration: number | null
+          service_name: string
+          service_price: number | null
+          shop_id: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["booking_status"] | null
+          updated_at: string | null
+          user_id: string | null
+        }
+      }
+      expected_service_duration: {
+        Args: {
+          shop_uuid: string
+          booked_service: string
+          booked_duration: number
+        }
+        Returns: number
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_shop_open: {
+        Args: { shop_uuid: string; at_time?: string }
+        Returns: boolean
+      }
+      is_valid_service: {
+        Args: { service: Json }
+        Returns: boolean
+      }
+      is_valid_service_catalog: {
+        Args: { services: Json }
+        Returns: boolean
+      }
+      join_queue: {
+        Args: { shop_uuid: string; service_id?: string }
+        Returns: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          completed_at: string | null
+          created_at: string | null
+          estimated_wait_time: number | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          joined_at: string | null
+          queue_position: number | null
+          service_duration: number | null
+          service_name: string
+          service_price: number | null
+          shop_id: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["booking_status"] | null
+          updated_at: string | null
+          user_id: string | null
+        }
+      }
+      moderate_review: {
+        Args: { review_uuid: string; action: string; notes?: string }
+        Returns: {
+          booking_id: string | null
+          created_at: string | null
+          id: string
+          is_hidden: boolean
+          rating: number
+          review_text: string | null
+          shop_id: string
+          tags: string[] | null
+          updated_at: string | null
+          user_id: string
+        }
+      }
+      nearby_shops: {
+        Args: {
+          lat: number
+          lng: number
+          radius_km?: number
+          result_limit?: number
+          result_offset?: number
+        }
+        Returns: {
+          id: string
+          shop_name: string
+          shop_address: string
+          latitude: number
+          longitude: number
+          services: Json
+          working_hours: Json
+          cover_image_url: string
+          rating_avg: number
+          total_reviews: number
+          total_bookings: number
+          distance_km: number
+          waiting_count: number
+          in_progress_count: number
+          estimated_wait_time: number
+        }[]
+      }
+      owns_reviewed_shop: {
+        Args: { review_uuid: string }
+        Returns: boolean
+      }
+      provision_barber_from_request: {
+        Args: {
+          request_uuid: string
+          barber_uuid: string
+          reviewer_uuid: string
+          shop_services?: Json
+          shop_working_hours?: Json
+          notes?: string
+        }
+        Returns: string
+      }
+      queue_projection: {
+        Args: { shop_uuid: string }
+        Returns: {
+          booking_id: string
+          projected_position: number
+          projected_wait: number
+        }[]
+      }
+      recent_service_durations: {
+        Args: { shop_uuid: string }
+        Returns: {
+          service_name: string
+          minutes: number
+        }[]
+      }
+      recompute_shop_stats: {
+        Args: { shop_uuid?: string }
+        Returns: number
+      }
+      refresh_all_duration_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      refresh_duration_stats: {
+        Args: { shop_uuid: string }
+        Returns: undefined
+      }
+      refresh_shop_queue_summary: {
+        Args: { shop_uuid: string }
+        Returns: undefined
+      }
+      refresh_shop_stats: {
+        Args: { shop_uuid: string }
+        Returns: undefined
+      }
+      shop_review_breakdown: {
+        Args: { shop_uuid: string }
+        Returns: {
+          kind: string
+          value: string
+          review_count: number
+        }[]
+      }
+      shop_open_until: {
+        Args: { shop_uuid: string; at_time?: string }
+        Returns: string
+      }
+      submit_review: {
+        Args: {
+          booking_uuid: string
+          rating: number
+          review_text?: string
+          tags?: string[]
+        }
+        Returns: {
+          booking_id: string | null
+          created_at: string | null
+          id: string
+          is_hidden: boolean
+          rating: number
+          review_text: string | null
+          shop_id: string
+          tags: string[] | null
+          updated_at: string | null
+          user_id: string
+        }
+      }
       update_queue_positions: {
         Args: { shop_uuid: string }
         Returns: undefined
       }
+      update_review: {
+        Args: {
+          review_uuid: string
+          rating: number
+          review_text?: string
+          tags?: string[]
+        }
+        Returns: {
+          booking_id: string | null
+          created_at: string | null
+          id: string
+          is_hidden: boolean
+          rating: number
+          review_text: string | null
+          shop_id: string
+          tags: string[] | null
+          updated_at: string | null
+          user_id: string
+        }
+      }
     }
     Enums: {
       booking_status:
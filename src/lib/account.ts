@@ -0,0 +1,155 @@
+import { z } from "zod";
+import type { AuthError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export const PASSWORD_RESET_PATH = "/auth/reset";
+
+export const passwordSchema = z
+  .string()
+  .min(6, "Use at least 6 characters")
+  .max(72, "Keep the password under 72 characters");
+
+/** New password with confirmation, shared by the reset page and account settings. */
+export const newPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+export type NewPasswordValues = z.infer<typeof newPasswordSchema>;
+
+export const profileDetailsSchema = z.object({
+  name: z.string().trim().min(1, "Enter your name").max(60, "Keep the name under 60 characters"),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^[+\d][\d\s()-]{5,19}$/, "Enter a valid phone number")
+    .or(z.literal("")),
+});
+
+export type ProfileDetails = z.infer<typeof profileDetailsSchema>;
+
+export type AccountErrorReason =
+  | "invalid_email"
+  | "email_in_use"
+  | "weak_password"
+  | "same_password"
+  | "reauthentication_needed"
+  | "rate_limited"
+  | "session_expired"
+  | "unknown";
+
+const ACCOUNT_MESSAGES: Record<AccountErrorReason, { title: string; description: string }> = {
+  invalid_email: {
+    title: "Invalid email",
+    description: "Please enter a valid email address.",
+  },
+  email_in_use: {
+    title: "Email already registered",
+    description: "Another account already uses this email address.",
+  },
+  weak_password: {
+    title: "Password too weak",
+    description: "Choose a longer password that's harder to guess.",
+  },
+  same_password: {
+    title: "Same password",
+    description: "Your new password must be different from the current one.",
+  },
+  reauthentication_needed: {
+    title: "Sign in again",
+    description: "For your security, please sign in again before changing your password.",
+  },
+  rate_limited: {
+    title: "Too many requests",
+    description: "Please wait a few minutes before trying again.",
+  },
+  session_expired: {
+    title: "Link expired",
+    description: "This reset link is invalid or has expired. Please request a new one.",
+  },
+  unknown: {
+    title: "Update Failed",
+    description: "Something went wrong. Please try again.",
+  },
+};
+
+export class AccountError extends Error {
+  readonly reason: AccountErrorReason;
+  readonly title: string;
+  readonly description: string;
+
+  constructor(reason: AccountErrorReason) {
+    super(reason);
+    this.name = "AccountError";
+    this.reason = reason;
+    this.title = ACCOUNT_MESSAGES[reason].title;
+    this.description = ACCOUNT_MESSAGES[reason].description;
+  }
+}
+
+const AUTH_ERROR_REASONS: Partial<Record<string, AccountErrorReason>> = {
+  email_address_invalid: "invalid_email",
+  validation_failed: "invalid_email",
+  email_exists: "email_in_use",
+  weak_password: "weak_password",
+  same_password: "same_password",
+  reauthentication_needed: "reauthentication_needed",
+  over_email_send_rate_limit: "rate_limited",
+  over_request_rate_limit: "rate_limited",
+  session_not_found: "session_expired",
+  session_expired: "session_expired",
+};
+
+const toAccountError = (error: AuthError) => {
+  console.error("Account update error:", error);
+  return new AccountError((error.code && AUTH_ERROR_REASONS[error.code]) || "unknown");
+};
+
+/**
+ * Emails a recovery link that signs the user in on PASSWORD_RESET_PATH, where
+ * they choose a new password. Succeeds for unknown emails too, so the form
+ * doesn't reveal which addresses have accounts.
+ */
+export async function requestPasswordReset(email: string) {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: `${window.location.origin}${PASSWORD_RESET_PATH}`,
+  });
+
+  if (error) throw toAccountError(error);
+}
+
+export async function updatePassword(password: string) {
+  const { error } = await supabase.auth.updateUser({ password });
+
+  if (error) throw toAccountError(error);
+}
+
+/**
+ * Starts an email change. Supabase sends confirmation links to the current and
+ * new addresses; the email only changes once they're confirmed.
+ */
+export async function updateEmail(email: string) {
+  const { error } = await supabase.auth.updateUser(
+    { email },
+    { emailRedirectTo: `${window.location.origin}/account` }
+  );
+
+  if (error) throw toAccountError(error);
+}
+
+export async function updateProfileDetails(userId: string, { name, phone }: ProfileDetails) {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ name, phone })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error("Error updating profile:", error);
+    throw new AccountError("unknown");
+  }
+}
@@ -0,0 +1,122 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ShopLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export type GeocodeErrorReason =
+  | "not_authenticated"
+  | "not_admin"
+  | "invalid_request"
+  | "shop_not_found"
+  | "address_not_found"
+  | "geocoder_failed"
+  | "unknown";
+
+const GEOCODE_MESSAGES: Record<GeocodeErrorReason, { title: string; description: string }> = {
+  not_authenticated: {
+    title: "Sign in required",
+    description: "Please sign in again to update the shop's location.",
+  },
+  not_admin: {
+    title: "Not allowed",
+    description: "Only admins can locate every shop at once.",
+  },
+  invalid_request: {
+    title: "Invalid request",
+    description: "The location request couldn't be read. Please reload the page and try again.",
+  },
+  shop_not_found: {
+    title: "Shop not found",
+    description: "This shop no longer exists or isn't yours.",
+  },
+  address_not_found: {
+    title: "Address not found",
+    description: "We couldn't find this address on the map. Drop a pin in Shop Location instead.",
+  },
+  geocoder_failed: {
+    title: "Location lookup unavailable",
+    description: "The address lookup service isn't responding. Try again later or drop a pin instead.",
+  },
+  unknown: {
+    title: "Location Failed",
+    description: "Failed to update the shop's location. Please try again.",
+  },
+};
+
+export class GeocodeError extends Error {
+  readonly reason: GeocodeErrorReason;
+  readonly title: string;
+  readonly description: string;
+
+  constructor(reason: GeocodeErrorReason) {
+    super(reason);
+    this.name = "GeocodeError";
+    this.reason = reason;
+    this.title = GEOCODE_MESSAGES[reason].title;
+    this.description = GEOCODE_MESSAGES[reason].description;
+  }
+}
+
+const isGeocodeReason = (value: unknown): value is GeocodeErrorReason =>
+  typeof value === "string" && value in GEOCODE_MESSAGES;
+
+// Non-2xx responses from geocode-shop carry { error: reason } in the body
+async function toGeocodeError(error: { context?: unknown }) {
+  const body = error.context instanceof Response ? await error.context.json().catch(() => null) : null;
+  return new GeocodeError(isGeocodeReason(body?.error) ? body.error : "unknown");
+}
+
+/**
+ * Places a shop on the map from its current address through the geocode-shop
+ * edge function and returns the saved coordinates.
+ */
+export async function geocodeShop(shopId: string) {
+  const { data, error } = await supabase.functions.invoke<ShopLocation>('geocode-shop', {
+    body: { shop_id: shopId },
+  });
+
+  if (error) {
+    console.error("Error geocoding shop:", error);
+    throw await toGeocodeError(error);
+  }
+
+  return data;
+}
+
+export interface BackfillResult {
+  located: number;
+  failed: number;
+  /** Shops still waiting to be geocoded by a later batch. */
+  remaining: number;
+  /** Shops whose address wasn't found; they need a new address or a pin. */
+  unresolved: number;
+}
+
+/** Admin job: geocodes a batch of shops that don't have coordinates yet. */
+export async function backfillShopLocations(limit?: number) {
+  const { data, error } = await supabase.functions.invoke<BackfillResult>('geocode-shop', {
+    body: { backfill: true, limit },
+  });
+
+  if (error) {
+    console.error("Error backfilling shop locations:", error);
+    throw await toGeocodeError(error);
+  }
+
+  return data;
+}
+
+/** Saves a pin the barber placed by hand. */
+export async function updateShopLocation(shopId: string, { latitude, longitude }: ShopLocation) {
+  const { error } = await supabase
+    .from('barber_shops')
+    .update({ latitude, longitude })
+    .eq('id', shopId);
+
+  if (error) {
+    console.error("Error saving shop location:", error);
+    throw new GeocodeError("unknown");
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Raster tile source for in-app maps. Point VITE_MAP_TILE_URL at a local tile
+ * server (e.g. http://localhost:8080/{z}/{x}/{y}.png) to run without network.
+ */
+export const MAP_TILE_URL =
+  import.meta.env.VITE_MAP_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+export const MAP_TILE_ATTRIBUTION =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export type WaitLevel = "none" | "short" | "long";
+
+/** Waits above this many minutes are shown as long. */
+export const LONG_WAIT_MINUTES = 30;
+
+export const waitLevel = (minutes: number): WaitLevel =>
+  minutes <= 0 ? "none" : minutes <= LONG_WAIT_MINUTES ? "short" : "long";
+
+export const WAIT_LEVEL_LABELS: Record<WaitLevel, string> = {
+  none: "No wait",
+  short: `Up to ${LONG_WAIT_MINUTES} min`,
+  long: `Over ${LONG_WAIT_MINUTES} min`,
+};
+
+export interface Cluster<T> {
+  items: T[];
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Groups points that fall in the same cellSize × cellSize pixel square once
+ * projected, so dense areas render as one marker. project maps a point to
+ * pixel coordinates at the current zoom.
+ */
+export function clusterPoints<T extends { lat: number; lng: number }>(
+  points: T[],
+  project: (point: T) => { x: number; y: number },
+  cellSize: number
+): Cluster<T>[] {
+  const cells = new Map<string, T[]>();
+
+  points.forEach((point) => {
+    const { x, y } = project(point);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) ?? []), point]);
+  });
+
+  return [...cells.values()].map((items) => ({
+    items,
+    lat: items.reduce((sum, p) => sum + p.lat, 0) / items.length,
+    lng: items.reduce((sum, p) => sum + p.lng, 0) / items.length,
+  }));
+}
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import type { AuthError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export const OTP_LENGTH = 6;
+export const OTP_RESEND_SECONDS = 60;
+
+/** Phone numbers in E.164 form, e.g. "+919876543210". Spaces, dashes and brackets are ignored. */
+export const phoneSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.replace(/[\s()-]/g, ""))
+  .pipe(z.string().regex(/^\+[1-9]\d{7,14}$/, "Enter your number with country code, e.g. +91 98765 43210"));
+
+export type PhoneAuthErrorReason =
+  | "invalid_phone"
+  | "account_not_found"
+  | "phone_in_use"
+  | "invalid_code"
+  | "rate_limited"
+  | "sms_failed"
+  | "phone_disabled"
+  | "unknown";
+
+const PHONE_AUTH_MESSAGES: Record<PhoneAuthErrorReason, { title: string; description: string }> = {
+  invalid_phone: {
+    title: "Invalid phone number",
+    description: "Enter your number with country code, e.g. +91 98765 43210.",
+  },
+  account_not_found: {
+    title: "No account found",
+    description: "There's no account with this phone number. Sign up instead.",
+  },
+  phone_in_use: {
+    title: "Phone already registered",
+    description: "This phone number belongs to another account.",
+  },
+  invalid_code: {
+    title: "Invalid code",
+    description: "The code is wrong or has expired. Check the SMS or request a new code.",
+  },
+  rate_limited: {
+    title: "Too many attempts",
+    description: "Please wait a minute before requesting another code.",
+  },
+  sms_failed: {
+    title: "SMS not sent",
+    description: "We couldn't send a code to this number. Please check it and try again.",
+  },
+  phone_disabled: {
+    title: "Phone sign-in unavailable",
+    description: "Phone sign-in isn't available right now. Please use your email instead.",
+  },
+  unknown: {
+    title: "Verification Failed",
+    description: "Something went wrong. Please try again.",
+  },
+};
+
+export class PhoneAuthError extends Error {
+  readonly reason: PhoneAuthErrorReason;
+  readonly title: string;
+  readonly description: string;
+
+  constructor(reason: PhoneAuthErrorReason) {
+    super(reason);
+    this.name = "PhoneAuthError";
+    this.reason = reason;
+    this.title = PHONE_AUTH_MESSAGES[reason].title;
+    this.description = PHONE_AUTH_MESSAGES[reason].description;
+  }
+}
+
+const AUTH_ERROR_REASONS: Partial<Record<string, PhoneAuthErrorReason>> = {
+  validation_failed: "invalid_phone",
+  otp_disabled: "account_not_found",
+  phone_exists: "phone_in_use",
+  otp_expired: "invalid_code",
+  over_sms_send_rate_limit: "rate_limited",
+  over_request_rate_limit: "rate_limited",
+  sms_send_failed: "sms_failed",
+  phone_provider_disabled: "phone_disabled",
+};
+
+const toPhoneAuthError = (error: AuthError) => {
+  console.error("Phone auth error:", error);
+  return new PhoneAuthError((error.code && AUTH_ERROR_REASONS[error.code]) || "unknown");
+};
+
+export interface SendPhoneOtpOptions {
+  /** Create an account for unknown numbers (sign-up) instead of rejecting them. */
+  createUser: boolean;
+  /** Stored on the new profile when an account is created. */
+  name?: string;
+}
+
+/**
+ * Texts a one-time code to the given E.164 number. With createUser the number
+ * signs up as a customer; the profile is created by the handle_new_user trigger.
+ * Rejections are thrown as PhoneAuthError.
+ */
+export async function sendPhoneOtp(phone: string, { createUser, name }: SendPhoneOtpOptions) {
+  const { error } = await supabase.auth.signInWithOtp({
+    phone,
+    options: {
+      shouldCreateUser: createUser,
+      data: createUser ? { name: name?.trim() ?? "" } : undefined,
+    },
+  });
+
+  if (error) throw toPhoneAuthError(error);
+}
+
+/** Verifies a sign-in/sign-up code; on success AuthProvider picks up the new session. */
+export async function verifyPhoneOtp(phone: string, token: string) {
+  const { error } = await supabase.auth.verifyOtp({ phone, token, type: "sms" });
+
+  if (error) throw toPhoneAuthError(error);
+}
+
+/**
+ * Starts linking a phone number to the signed-in (email) account. The number
+ * only becomes a sign-in method once confirmed with verifyPhoneLink.
+ */
+export async function requestPhoneLink(phone: string) {
+  const { error } = await supabase.auth.updateUser({ phone });
+
+  if (error) throw toPhoneAuthError(error);
+}
+
+/** Confirms a phone link; the profile's phone is updated by the sync_profile_phone trigger. */
+export async function verifyPhoneLink(phone: string, token: string) {
+  const { error } = await supabase.auth.verifyOtp({ phone, token, type: "phone_change" });
+
+  if (error) throw toPhoneAuthError(error);
+}
@@ -0,0 +1,230 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type JoinQueueErrorReason =
+  | "not_authenticated"
+  | "shop_not_found"
+  | "shop_inactive"
+  | "shop_closed"
+  | "closing_soon"
+  | "queue_full"
+  | "already_in_queue"
+  | "service_required"
+  | "service_not_found"
+  | "unknown";
+
+const JOIN_QUEUE_MESSAGES: Record<JoinQueueErrorReason, { title: string; description: string }> = {
+  not_authenticated: {
+    title: "Sign in required",
+    description: "Please sign in to join a queue.",
+  },
+  shop_not_found: {
+    title: "Shop not found",
+    description: "This shop no longer exists.",
+  },
+  shop_inactive: {
+    title: "Shop unavailable",
+    description: "This shop isn't accepting bookings right now.",
+  },
+  shop_closed: {
+    title: "Shop closed",
+    description: "This shop is closed at the moment. Please try again during opening hours.",
+  },
+  closing_soon: {
+    title: "Closing soon",
+    description: "This shop can't fit another customer before closing. Please try again when it next opens.",
+  },
+  queue_full: {
+    title: "Queue full",
+    description: "The queue at this shop is full. Please try again later.",
+  },
+  already_in_queue: {
+    title: "Already in queue",
+    description: "You already have an active booking at this shop.",
+  },
+  service_required: {
+    title: "Choose a service",
+    description: "Please pick the service you'd like to book.",
+  },
+  service_not_found: {
+    title: "Service unavailable",
+    description: "The selected service is no longer offered by this shop.",
+  },
+  unknown: {
+    title: "Booking Failed",
+    description: "Failed to join the queue. Please try again.",
+  },
+};
+
+export class JoinQueueError extends Error {
+  readonly reason: JoinQueueErrorReason;
+  readonly title: string;
+  readonly description: string;
+
+  constructor(reason: JoinQueueErrorReason) {
+    super(reason);
+    this.name = "JoinQueueError";
+    this.reason = reason;
+    this.title = JOIN_QUEUE_MESSAGES[reason].title;
+    this.description = JOIN_QUEUE_MESSAGES[reason].description;
+  }
+}
+
+const isJoinQueueReason = (value: string): value is JoinQueueErrorReason =>
+  value in JOIN_QUEUE_MESSAGES;
+
+/**
+ * Joins a shop's queue through the join_queue RPC, which enforces shop status,
+ * opening hours, the queue limit and one active booking per shop.
+ * Rejections are thrown as JoinQueueError.
+ */
+export async function joinQueue(shopId: string, serviceId?: string) {
+  const { data, error } = await supabase.rpc('join_queue', {
+    shop_uuid: shopId,
+    service_id: serviceId,
+  });
+
+  if (error) {
+    console.error("Error joining queue:", error);
+    throw new JoinQueueError(isJoinQueueReason(error.message) ? error.message : "unknown");
+  }
+
+  return data;
+}
+
+export type CancelBookingErrorReason =
+  | "not_authenticated"
+  | "booking_not_found"
+  | "booking_not_cancellable"
+  | "unknown";
+
+const CANCEL_BOOKING_MESSAGES: Record<CancelBookingErrorReason, { title: string; description: string }> = {
+  not_authenticated: {
+    title: "Sign in required",
+    description: "Please sign in to manage your bookings.",
+  },
+  booking_not_found: {
+    title: "Booking not found",
+    description: "This booking no longer exists.",
+  },
+  booking_not_cancellable: {
+    title: "Can't leave queue",
+    description: "Your service has already started or this booking is closed.",
+  },
+  unknown: {
+    title: "Cancellation Failed",
+    description: "Failed to leave the queue. Please try again.",
+  },
+};
+
+export class CancelBookingError extends Error {
+  readonly reason: CancelBookingErrorReason;
+  readonly title: string;
+  readonly description: string;
+
+  constructor(reason: CancelBookingErrorReason) {
+    super(reason);
+    this.name = "CancelBookingError";
+    this.reason = reason;
+    this.title = CANCEL_BOOKING_MESSAGES[reason].title;
+    this.description = CANCEL_BOOKING_MESSAGES[reason].description;
+  }
+}
+
+const isCancelBookingReason = (value: string): value is CancelBookingErrorReason =>
+  value in CANCEL_BOOKING_MESSAGES;
+
+/**
+ * Cancels one of the signed-in customer's waiting bookings through the
+ * cancel_booking RPC, which records the reason and re-sequences the queue.
+ */
+export async function cancelBooking(bookingId: string, reason?: string) {
+  const { data, error } = await supabase.rpc('cancel_booking', {
+    booking_uuid: bookingId,
+    reason,
+  });
+
+  if (error) {
+    console.error("Error cancelling booking:", error);
+    throw new CancelBookingError(isCancelBookingReason(error.message) ? error.message : "unknown");
+  }
+
+  return data;
+}
+
+export type AddWalkInErrorReason =
+  | "not_authenticated"
+  | "shop_not_found"
+  | "guest_name_required"
+  | "service_not_found"
+  | "service_inactive"
+  | "unknown";
+
+const ADD_WALK_IN_MESSAGES: Record<AddWalkInErrorReason, { title: string; description: string }> = {
+  not_authenticated: {
+    title: "Sign in required",
+    description: "Please sign in again to manage your queue.",
+  },
+  shop_not_found: {
+    title: "Shop not found",
+    description: "You can only add walk-ins to your own shop.",
+  },
+  guest_name_required: {
+    title: "Name required",
+    description: "Enter the customer's name so you can call them up.",
+  },
+  service_not_found: {
+    title: "Service unavailable",
+    description: "The selected service is no longer in your catalog.",
+  },
+  service_inactive: {
+    title: "Service paused",
+    description: "The selected service is turned off in your catalog. Turn it on or pick another service.",
+  },
+  unknown: {
+    title: "Failed to Add",
+    description: "Failed to add walk-in customer. Please try again.",
+  },
+};
+
+export class AddWalkInError extends Error {
+  readonly reason: AddWalkInErrorReason;
+  readonly title: string;
+  readonly description: string;
+
+  constructor(reason: AddWalkInErrorReason) {
+    super(reason);
+    this.name = "AddWalkInError";
+    this.reason = reason;
+    this.title = ADD_WALK_IN_MESSAGES[reason].title;
+    this.description = ADD_WALK_IN_MESSAGES[reason].description;
+  }
+}
+
+const isAddWalkInReason = (value: string): value is AddWalkInErrorReason =>
+  value in ADD_WALK_IN_MESSAGES;
+
+export interface WalkInDetails {
+  name: string;
+  phone?: string;
+  serviceId?: string;
+}
+
+/**
+ * Adds a guest to the signed-in barber's queue through the add_walk_in RPC.
+ * Guests have no account; their name and phone are stored on the booking.
+ */
+export async function addWalkIn(shopId: string, { name, phone, serviceId }: WalkInDetails) {
+  const { data, error } = await supabase.rpc('add_walk_in', {
+    shop_uuid: shopId,
+    guest_name: name,
+    guest_phone: phone || undefined,
+    service_id: serviceId,
+  });
+
+  if (error) {
+    console.error("Error adding walk-in:", error);
+    throw new AddWalkInError(isAddWalkInReason(error.message) ? error.message : "unknown");
+  }
+
+  return data;
+}
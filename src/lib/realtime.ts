@@ -0,0 +1,85 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+const MAX_RECONNECT_DELAY = 30000;
+
+interface ChangeSubscription<T extends Record<string, unknown>> {
+  channelName: string;
+  table: string;
+  filter?: string;
+  onChange: (payload: RealtimePostgresChangesPayload<T>) => void;
+  /** Called on every (re)subscribe; use it to reconcile with a full refetch. */
+  onSubscribed?: () => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+/**
+ * Subscribes to postgres_changes on a public table and keeps the channel alive:
+ * dropped channels are recreated with exponential backoff and immediately when
+ * the browser comes back online. Returns a function that tears everything down.
+ */
+export function subscribeToChanges<T extends Record<string, unknown>>({
+  channelName,
+  table,
+  filter,
+  onChange,
+  onSubscribed,
+  onConnectionChange,
+}: ChangeSubscription<T>) {
+  let channel: RealtimeChannel | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempts = 0;
+  let disposed = false;
+
+  const subscribe = () => {
+    const current = supabase
+      .channel(channelName)
+      .on<T>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, ...(filter ? { filter } : {}) },
+        onChange
+      )
+      .subscribe((status) => {
+        // Ignore late status callbacks from channels we already tore down
+        if (disposed || channel !== current) return;
+
+        if (status === 'SUBSCRIBED') {
+          attempts = 0;
+          onConnectionChange?.(true);
+          onSubscribed?.();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          onConnectionChange?.(false);
+          scheduleReconnect();
+        }
+      });
+    channel = current;
+  };
+
+  const reconnect = () => {
+    clearTimeout(retryTimer);
+    retryTimer = undefined;
+    if (channel) {
+      const stale = channel;
+      channel = null;
+      supabase.removeChannel(stale);
+    }
+    if (!disposed) subscribe();
+  };
+
+  const scheduleReconnect = () => {
+    if (retryTimer) return;
+    const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY);
+    attempts += 1;
+    retryTimer = setTimeout(reconnect, delay);
+  };
+
+  subscribe();
+  window.addEventListener('online', reconnect);
+
+  return () => {
+    disposed = true;
+    clearTimeout(retryTimer);
+    window.removeEventListener('online', reconnect);
+    if (channel) supabase.removeChannel(channel);
+  };
+}
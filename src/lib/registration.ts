@@ -0,0 +1,218 @@
+import { supabase } from "@/integrations/supabase/client";
+import { newServiceId, serviceSchema, type Service } from "@/lib/services";
+import { WEEKDAYS, workingHoursSchema, type Weekday, type WorkingHours } from "@/lib/working-hours";
+
+const CATEGORY_KEYWORDS: [RegExp, Service["category"]][] = [
+  [/beard|moustache|mustache/i, "Beard"],
+  [/shave/i, "Shave"],
+  [/colou?r|dye|highlight|bleach/i, "Color"],
+  [/styl|blow|gel|wax/i, "Styling"],
+  [/hair|cut|fade|trim|wash/i, "Hair"],
+];
+
+/**
+ * Turns the free-text "services offered" of a registration request
+ * (e.g. "Haircut - $20, Beard trim 10\nHair wash") into catalog entries.
+ * Prices default to 0 and durations to 30 minutes; the barber refines them later.
+ */
+export function parseServicesOffered(text: string): Service[] {
+  return text
+    .split(/[\n,;•]+/)
+    .map((item) => item.replace(/^\s*[-*\d.)]+\s+/, "").trim())
+    .filter(Boolean)
+    .flatMap((item) => {
+      const priceMatch = item.match(/(?:[$₹€£]\s*)?(\d+(?:\.\d{1,2})?)\s*(?:[$₹€£]|rs\.?|inr|usd)?\s*$/i);
+      const name = (priceMatch ? item.slice(0, priceMatch.index) : item).replace(/[\s:–-]+$/, "").trim();
+
+      const result = serviceSchema.safeParse({
+        id: newServiceId(),
+        name,
+        price: priceMatch ? Number(priceMatch[1]) : 0,
+        duration: 30,
+        category: CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(name))?.[1] ?? "Other",
+        active: true,
+      });
+
+      return result.success ? [result.data] : [];
+    });
+}
+
+const DAY_PATTERNS: [RegExp, Weekday][] = [
+  [/^mon/i, "monday"],
+  [/^tue/i, "tuesday"],
+  [/^wed/i, "wednesday"],
+  [/^thu/i, "thursday"],
+  [/^fri/i, "friday"],
+  [/^sat/i, "saturday"],
+  [/^sun/i, "sunday"],
+];
+
+const toWeekday = (token: string) => DAY_PATTERNS.find(([pattern]) => pattern.test(token.trim()))?.[1];
+
+const parseDays = (text: string): Weekday[] => {
+  if (/daily|every\s*day|all\s*days/i.test(text)) return [...WEEKDAYS];
+
+  return text.split(/[,&/]|\band\b/i).flatMap((part) => {
+    const [from, to] = part.split(/\s*(?:-|–|to)\s*/i).map(toWeekday);
+    if (!from) return [];
+    if (!to) return [from];
+
+    const start = WEEKDAYS.indexOf(from);
+    const end = WEEKDAYS.indexOf(to);
+    return WEEKDAYS.filter((_, i) => (start <= end ? i >= start && i <= end : i >= start || i <= end));
+  });
+};
+
+const parseTime = (text: string): string | null => {
+  const match = text.trim().match(/^(\d{1,2})(?::|\.)?(\d{2})?\s*(am|pm|a\.m\.|p\.m\.)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, "");
+
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  if (hours > 24 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+};
+
+/**
+ * Best-effort parse of free-text working hours such as
+ * "Mon-Sat: 9:00 AM - 8:00 PM, Sunday: Closed". Days that aren't mentioned are
+ * closed. Returns null when nothing could be understood, so the shop stays
+ * unconfigured (always open) until the barber sets their hours.
+ */
+export function parseWorkingHoursText(text: string, timezone: string): WorkingHours | null {
+  const hours: WorkingHours = {
+    timezone,
+    days: Object.fromEntries(WEEKDAYS.map((day) => [day, { ranges: [], breaks: [] }])) as WorkingHours["days"],
+    exceptions: [],
+  };
+  let understood = false;
+
+  for (const segment of text.split(/[\n;]+|,(?=\s*[a-z]{3})/i)) {
+    const match = segment.match(/^\s*([a-z\s,&/–-]+?)\s*[:=]?\s*((?:\d|closed|off|holiday).*)$/i);
+    if (!match) continue;
+
+    const days = parseDays(match[1]);
+    if (days.length === 0) continue;
+
+    if (/closed|off|holiday/i.test(match[2])) {
+      understood = true;
+      continue;
+    }
+
+    const [open, rawClose] = match[2].split(/\s*(?:-|–|to)\s*/i).map(parseTime);
+    if (!open || !rawClose) continue;
+
+    // "9-8" without am/pm means 9am to 8pm
+    const close = rawClose <= open && rawClose < "12:00"
+      ? `${String(Number(rawClose.slice(0, 2)) + 12).padStart(2, "0")}${rawClose.slice(2)}`
+      : rawClose;
+
+    days.forEach((day) => {
+      hours.days[day] = { ranges: [...hours.days[day].ranges, { open, close }], breaks: [] };
+    });
+    understood = true;
+  }
+
+  if (!understood) return null;
+
+  const result = workingHoursSchema.safeParse(hours);
+  return result.success ? result.data : null;
+}
+
+export type ApproveRegistrationErrorReason =
+  | "not_authenticated"
+  | "not_admin"
+  | "invalid_request"
+  | "request_not_found"
+  | "request_not_pending"
+  | "email_required"
+  | "email_in_use"
+  | "unknown";
+
+const APPROVE_REGISTRATION_MESSAGES: Record<ApproveRegistrationErrorReason, { title: string; description: string }> = {
+  not_authenticated: {
+    title: "Sign in required",
+    description: "Please sign in again to review requests.",
+  },
+  not_admin: {
+    title: "Access Denied",
+    description: "Only admins can approve registration requests.",
+  },
+  invalid_request: {
+    title: "Invalid request",
+    description: "The approval couldn't be read. Please reload the page and try again.",
+  },
+  request_not_found: {
+    title: "Request not found",
+    description: "This registration request no longer exists.",
+  },
+  request_not_pending: {
+    title: "Already reviewed",
+    description: "This request has already been approved or rejected.",
+  },
+  email_required: {
+    title: "Email required",
+    description: "The applicant didn't provide an email address to send the invitation to.",
+  },
+  email_in_use: {
+    title: "Email already registered",
+    description: "An account with this email already exists. Ask the applicant for another email.",
+  },
+  unknown: {
+    title: "Approval Failed",
+    description: "Failed to provision the barber account. Please try again.",
+  },
+};
+
+export class ApproveRegistrationError extends Error {
+  readonly reason: ApproveRegistrationErrorReason;
+  readonly title: string;
+  readonly description: string;
+
+  constructor(reason: ApproveRegistrationErrorReason) {
+    super(reason);
+    this.name = "ApproveRegistrationError";
+    this.reason = reason;
+    this.title = APPROVE_REGISTRATION_MESSAGES[reason].title;
+    this.description = APPROVE_REGISTRATION_MESSAGES[reason].description;
+  }
+}
+
+const isApproveRegistrationReason = (value: unknown): value is ApproveRegistrationErrorReason =>
+  typeof value === "string" && value in APPROVE_REGISTRATION_MESSAGES;
+
+export interface ApproveRegistrationOptions {
+  notes?: string;
+  services: Service[];
+  workingHours: WorkingHours | null;
+}
+
+/**
+ * Approves a registration request through the approve-barber-registration edge
+ * function, which invites the applicant by email and creates their barber
+ * profile and shop. Returns the new shop id.
+ */
+export async function approveRegistration(requestId: string, { notes, services, workingHours }: ApproveRegistrationOptions) {
+  const { data, error } = await supabase.functions.invoke<{ shop_id: string }>('approve-barber-registration', {
+    body: {
+      request_id: requestId,
+      notes: notes || null,
+      services,
+      working_hours: workingHours,
+    },
+  });
+
+  if (error) {
+    console.error("Error approving registration:", error);
+    // Non-2xx responses carry { error: reason } in the body
+    const body = error.context instanceof Response ? await error.context.json().catch(() => null) : null;
+    throw new ApproveRegistrationError(isApproveRegistrationReason(body?.error) ? body.error : "unknown");
+  }
+
+  return data;
+}
@@ -0,0 +1,257 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Review = Tables<"reviews">;
+export type ReviewResponse = Tables<"review_responses">;
+export type ReviewReport = Tables<"review_reports">;
+export type ReviewModeration = Tables<"review_moderations">;
+
+/** Tags customers can attach to a review. Must match handle_review_validation. */
+export const REVIEW_TAGS = [
+  { value: "clean", label: "Clean" },
+  { value: "friendly", label: "Friendly" },
+  { value: "fast", label: "Fast" },
+  { value: "skilled", label: "Skilled" },
+  { value: "great_value", label: "Great value" },
+  { value: "on_time", label: "On time" },
+] as const;
+
+export type ReviewTag = (typeof REVIEW_TAGS)[number]["value"];
+
+export const reviewTagLabel = (tag: string) =>
+  REVIEW_TAGS.find((t) => t.value === tag)?.label ?? tag;
+
+/** Reviews can be edited for this long after posting (enforced by update_review). */
+export const REVIEW_EDIT_WINDOW_DAYS = 7;
+
+export const canEditReview = (review: Pick<Review, "created_at">, now = new Date()) =>
+  !!review.created_at &&
+  now.getTime() - new Date(review.created_at).getTime() < REVIEW_EDIT_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+export const reviewSchema = z.object({
+  rating: z.number().int().min(1, "Choose a rating").max(5),
+  reviewText: z.string().trim().max(1000, "Keep your review under 1000 characters"),
+  tags: z.array(z.enum(REVIEW_TAGS.map((t) => t.value) as [ReviewTag, ...ReviewTag[]])),
+});
+
+export type ReviewValues = z.infer<typeof reviewSchema>;
+
+export const reviewResponseSchema = z.object({
+  responseText: z
+    .string()
+    .trim()
+    .min(1, "Write a reply")
+    .max(1000, "Keep your reply under 1000 characters"),
+});
+
+export type ReviewResponseValues = z.infer<typeof reviewResponseSchema>;
+
+/** Reasons a review can be reported for. Must match the review_reports check. */
+export const REPORT_REASONS = [
+  { value: "spam", label: "Spam or advertising" },
+  { value: "offensive", label: "Offensive or abusive" },
+  { value: "fake", label: "Not a real visit" },
+  { value: "other", label: "Something else" },
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number]["value"];
+
+export const reportReasonLabel = (reason: string) =>
+  REPORT_REASONS.find((r) => r.value === reason)?.label ?? reason;
+
+export type ModerationAction = "hide" | "restore" | "dismiss";
+
+export type ReviewErrorReason =
+  | "not_authenticated"
+  | "booking_not_found"
+  | "booking_not_completed"
+  | "already_reviewed"
+  | "review_not_found"
+  | "edit_window_closed"
+  | "invalid_rating"
+  | "invalid_tag"
+  | "already_responded"
+  | "already_reported"
+  | "not_admin"
+  | "invalid_action"
+  | "unknown";
+
+const REVIEW_MESSAGES: Record<ReviewErrorReason, { title: string; description: string }> = {
+  not_authenticated: {
+    title: "Sign in required",
+    description: "Please sign in to review your visit.",
+  },
+  booking_not_found: {
+    title: "Booking not found",
+    description: "You can only review your own bookings.",
+  },
+  booking_not_completed: {
+    title: "Visit not finished",
+    description: "You can review this shop once your haircut is complete.",
+  },
+  already_reviewed: {
+    title: "Already reviewed",
+    description: "You've already reviewed this visit. You can edit your review instead.",
+  },
+  review_not_found: {
+    title: "Review not found",
+    description: "This review no longer exists.",
+  },
+  edit_window_closed: {
+    title: "Can't edit review",
+    description: `Reviews can only be edited within ${REVIEW_EDIT_WINDOW_DAYS} days of posting.`,
+  },
+  invalid_rating: {
+    title: "Choose a rating",
+    description: "Please rate your visit from 1 to 5 stars.",
+  },
+  invalid_tag: {
+    title: "Invalid tag",
+    description: "One of the selected tags isn't available. Please refresh and try again.",
+  },
+  already_responded: {
+    title: "Already replied",
+    description: "This review already has a reply. You can edit it instead.",
+  },
+  already_reported: {
+    title: "Already reported",
+    description: "You've already reported this review. Our team will take a look.",
+  },
+  not_admin: {
+    title: "Not allowed",
+    description: "Only admins can moderate reviews.",
+  },
+  invalid_action: {
+    title: "Moderation Failed",
+    description: "That moderation action isn't supported. Please refresh and try again.",
+  },
+  unknown: {
+    title: "Review Failed",
+    description: "Failed to save your review. Please try again.",
+  },
+};
+
+export class ReviewError extends Error {
+  readonly reason: ReviewErrorReason;
+  readonly title: string;
+  readonly description: string;
+
+  constructor(reason: ReviewErrorReason) {
+    super(reason);
+    this.name = "ReviewError";
+    this.reason = reason;
+    this.title = REVIEW_MESSAGES[reason].title;
+    this.description = REVIEW_MESSAGES[reason].description;
+  }
+}
+
+const isReviewReason = (value: string): value is ReviewErrorReason =>
+  value in REVIEW_MESSAGES;
+
+/**
+ * Reviews a completed booking through the submit_review RPC, which checks the
+ * booking belongs to the caller and hasn't been reviewed yet.
+ * Rejections are thrown as ReviewError.
+ */
+export async function submitReview(bookingId: string, { rating, reviewText, tags }: ReviewValues) {
+  const { data, error } = await supabase.rpc('submit_review', {
+    booking_uuid: bookingId,
+    rating,
+    review_text: reviewText || undefined,
+    tags,
+  });
+
+  if (error) {
+    console.error("Error submitting review:", error);
+    throw new ReviewError(isReviewReason(error.message) ? error.message : "unknown");
+  }
+
+  return data;
+}
+
+/** Edits a review through the update_review RPC while the edit window is open. */
+export async function updateReview(reviewId: string, { rating, reviewText, tags }: ReviewValues) {
+  const { data, error } = await supabase.rpc('update_review', {
+    review_uuid: reviewId,
+    rating,
+    review_text: reviewText || undefined,
+    tags,
+  });
+
+  if (error) {
+    console.error("Error updating review:", error);
+    throw new ReviewError(isReviewReason(error.message) ? error.message : "unknown");
+  }
+
+  return data;
+}
+
+// Postgres unique_violation, raised when a reply or report already exists
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Publicly replies to a review of the caller's shop. Each review takes one
+ * reply; RLS checks the caller owns the reviewed shop.
+ */
+export async function respondToReview(reviewId: string, responderId: string, { responseText }: ReviewResponseValues) {
+  const { data, error } = await supabase
+    .from('review_responses')
+    .insert({ review_id: reviewId, responder_id: responderId, response_text: responseText })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error responding to review:", error);
+    throw new ReviewError(error.code === UNIQUE_VIOLATION ? "already_responded" : "unknown");
+  }
+
+  return data;
+}
+
+export async function updateReviewResponse(responseId: string, { responseText }: ReviewResponseValues) {
+  const { data, error } = await supabase
+    .from('review_responses')
+    .update({ response_text: responseText })
+    .eq('id', responseId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating review response:", error);
+    throw new ReviewError("unknown");
+  }
+
+  return data;
+}
+
+/** Flags a review for the admin moderation queue. Each user can report a review once. */
+export async function reportReview(reviewId: string, reporterId: string, reason: ReportReason, details?: string) {
+  const { error } = await supabase
+    .from('review_reports')
+    .insert({ review_id: reviewId, reporter_id: reporterId, reason, details: details?.trim() || null });
+
+  if (error) {
+    console.error("Error reporting review:", error);
+    throw new ReviewError(error.code === UNIQUE_VIOLATION ? "already_reported" : "unknown");
+  }
+}
+
+/**
+ * Hides, restores or clears the reports on a review through the
+ * moderate_review RPC. Hiding or restoring recomputes the shop's rating.
+ */
+export async function moderateReview(reviewId: string, action: ModerationAction, notes?: string) {
+  const { data, error } = await supabase.rpc('moderate_review', {
+    review_uuid: reviewId,
+    action,
+    notes: notes || undefined,
+  });
+
+  if (error) {
+    console.error("Error moderating review:", error);
+    throw new ReviewError(isReviewReason(error.message) ? error.message : "unknown");
+  }
+
+  return data;
+}
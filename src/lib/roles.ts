@@ -0,0 +1,11 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type UserRole = Database["public"]["Enums"]["user_role"];
+
+/** Where each role lands after signing in. */
+export const ROLE_HOME: Record<UserRole, string> = {
+  customer: "/customer-dashboard",
+  barber: "/barber-dashboard",
+  admin: "/admin",
+};
+
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+
+export const SERVICE_CATEGORIES = ["Hair", "Beard", "Shave", "Color", "Styling", "Other"] as const;
+
+export const serviceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Service name is required").max(60, "Keep the name under 60 characters"),
+  price: z.coerce.number().min(0, "Price can't be negative").max(10000, "Price looks too high"),
+  duration: z.coerce
+    .number()
+    .int("Duration must be whole minutes")
+    .min(5, "Duration must be at least 5 minutes")
+    .max(480, "Duration can't exceed 8 hours"),
+  category: z.enum(SERVICE_CATEGORIES),
+  active: z.boolean(),
+});
+
+export type Service = z.infer<typeof serviceSchema>;
+
+/**
+ * Reads barber_shops.services, dropping entries that don't match the Service
+ * model. The database enforces the same shape (is_valid_service), so this only
+ * guards against a stale or hand-edited row.
+ */
+export function parseServices(value: Json | null | undefined): Service[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    const result = serviceSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+}
+
+export function activeServices(value: Json | null | undefined): Service[] {
+  return parseServices(value).filter((service) => service.active);
+}
+
+export function newServiceId() {
+  return crypto.randomUUID();
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+
+// Ranges mirror the CHECK constraints on barber_shops
+export const shopSettingsSchema = z.object({
+  shop_name: z.string().trim().min(2, "Shop name is required").max(80, "Keep the name under 80 characters"),
+  shop_address: z.string().trim().min(5, "Enter the full address").max(200, "Keep the address under 200 characters"),
+  max_queue_limit: z.coerce
+    .number()
+    .int("Queue limit must be a whole number")
+    .min(1, "Allow at least 1 customer in the queue")
+    .max(100, "Queue limit can't exceed 100"),
+  avg_service_duration: z.coerce
+    .number()
+    .int("Duration must be whole minutes")
+    .min(5, "Duration must be at least 5 minutes")
+    .max(480, "Duration can't exceed 8 hours"),
+  chair_count: z.coerce
+    .number()
+    .int("Chairs must be a whole number")
+    .min(1, "You need at least 1 chair")
+    .max(20, "Chairs can't exceed 20"),
+});
+
+export type ShopSettings = z.infer<typeof shopSettingsSchema>;
+
+export const SETTING_LABELS: Record<string, string> = {
+  shop_name: "Shop name",
+  shop_address: "Address",
+  max_queue_limit: "Max queue limit",
+  avg_service_duration: "Avg service duration",
+  chair_count: "Chairs",
+  services: "Services",
+  working_hours: "Working hours",
+  is_active: "Shop active",
+};
+
+/**
+ * Short display form of an audited value. Structured settings (services,
+ * working hours) are too large to show inline and render as null.
+ */
+export function formatSettingValue(value: Json | null): string | null {
+  if (value === null) return "—";
+  if (typeof value === "object") return null;
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
@@ -0,0 +1,189 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+
+export const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const timeRangeSchema = z
+  .object({
+    open: z.string().regex(TIME_PATTERN, "Use HH:MM"),
+    close: z.string().regex(TIME_PATTERN, "Use HH:MM"),
+  })
+  .refine((range) => toMinutes(range.close) > toMinutes(range.open), {
+    message: "Closing time must be after opening time",
+    path: ["close"],
+  });
+
+export const dayScheduleSchema = z.object({
+  // An empty list of ranges means the shop is closed that day
+  ranges: z.array(timeRangeSchema),
+  breaks: z.array(timeRangeSchema).default([]),
+});
+
+export const scheduleExceptionSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  label: z.string().trim().max(60).optional(),
+  // Replaces the regular hours for that date; empty means closed all day
+  ranges: z.array(timeRangeSchema),
+});
+
+export const workingHoursSchema = z.object({
+  timezone: z.string().min(1),
+  days: z.object(
+    Object.fromEntries(WEEKDAYS.map((day) => [day, dayScheduleSchema])) as Record<Weekday, typeof dayScheduleSchema>
+  ),
+  exceptions: z.array(scheduleExceptionSchema).default([]),
+});
+
+export type TimeRange = z.infer<typeof timeRangeSchema>;
+export type DaySchedule = z.infer<typeof dayScheduleSchema>;
+export type ScheduleException = z.infer<typeof scheduleExceptionSchema>;
+export type WorkingHours = z.infer<typeof workingHoursSchema>;
+
+/** The browser's IANA timezone, used as the default wherever a shop's zone is chosen. */
+export const localTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export function defaultWorkingHours(): WorkingHours {
+  const weekday: DaySchedule = { ranges: [{ open: "09:00", close: "18:00" }], breaks: [] };
+
+  return {
+    timezone: localTimezone(),
+    days: {
+      monday: weekday,
+      tuesday: weekday,
+      wednesday: weekday,
+      thursday: weekday,
+      friday: weekday,
+      saturday: { ranges: [{ open: "10:00", close: "16:00" }], breaks: [] },
+      sunday: { ranges: [], breaks: [] },
+    },
+    exceptions: [],
+  };
+}
+
+/** Reads barber_shops.working_hours; null when the shop has not set a schedule. */
+export function parseWorkingHours(value: Json | null | undefined): WorkingHours | null {
+  const result = workingHoursSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+interface ZonedDay {
+  date: string; // YYYY-MM-DD in the shop's timezone
+  weekday: Weekday;
+  minutes: number; // minutes since local midnight
+}
+
+const zonedNow = (now: Date, timezone: string): ZonedDay => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+
+  return {
+    date,
+    weekday: weekdayOf(date),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+const weekdayOf = (date: string): Weekday => {
+  // getUTCDay: 0 = Sunday
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return WEEKDAYS[(day + 6) % 7];
+};
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split('T')[0];
+};
+
+/** Open intervals (in minutes since midnight) for a local date, with breaks cut out. */
+const intervalsFor = (schedule: WorkingHours, date: string): [number, number][] => {
+  const exception = schedule.exceptions.find((e) => e.date === date);
+  const day = schedule.days[weekdayOf(date)];
+  const ranges = exception ? exception.ranges : day.ranges;
+  const breaks = exception ? [] : day.breaks;
+
+  return ranges
+    .flatMap((range) => {
+      let pieces: [number, number][] = [[toMinutes(range.open), toMinutes(range.close)]];
+      for (const br of breaks) {
+        const [bStart, bEnd] = [toMinutes(br.open), toMinutes(br.close)];
+        pieces = pieces.flatMap(([start, end]): [number, number][] => {
+          if (bEnd <= start || bStart >= end) return [[start, end]];
+          return [[start, bStart], [bEnd, end]].filter(([s, e]) => e > s) as [number, number][];
+        });
+      }
+      return pieces;
+    })
+    .sort((a, b) => a[0] - b[0]);
+};
+
+const formatMinutes = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+/** The open interval containing the current local time, if any. */
+const currentInterval = (schedule: WorkingHours, today: ZonedDay) =>
+  intervalsFor(schedule, today.date).find(([start, end]) => today.minutes >= start && today.minutes < end);
+
+/** Whether the shop is open at `now`. Shops without a schedule are treated as open. */
+export function isShopOpen(schedule: WorkingHours | null, now: Date = new Date()): boolean {
+  return !schedule || currentInterval(schedule, zonedNow(now, schedule.timezone)) !== undefined;
+}
+
+export interface OpenStatus {
+  isOpen: boolean;
+  /** Human-readable summary, e.g. "Closes at 18:00" or "Opens tomorrow at 09:00". */
+  label: string;
+}
+
+/**
+ * Open/closed state of a schedule at `now`, evaluated in the shop's timezone.
+ * Returns null when the shop has no structured schedule.
+ */
+export function getOpenStatus(schedule: WorkingHours | null, now: Date = new Date()): OpenStatus | null {
+  if (!schedule) return null;
+
+  const today = zonedNow(now, schedule.timezone);
+
+  if (isShopOpen(schedule, now)) {
+    const [, close] = currentInterval(schedule, today);
+    return { isOpen: true, label: `Closes at ${formatMinutes(close)}` };
+  }
+
+  const laterToday = intervalsFor(schedule, today.date).find(([start]) => start > today.minutes);
+  if (laterToday) {
+    return { isOpen: false, label: `Opens at ${formatMinutes(laterToday[0])}` };
+  }
+
+  for (let offset = 1; offset <= 14; offset++) {
+    const date = addDays(today.date, offset);
+    const [next] = intervalsFor(schedule, date);
+    if (next) {
+      const day = offset === 1
+        ? "tomorrow"
+        : weekdayOf(date).charAt(0).toUpperCase() + weekdayOf(date).slice(1);
+      return { isOpen: false, label: `Opens ${day} at ${formatMinutes(next[0])}` };
+    }
+  }
+
+  return { isOpen: false, label: "Temporarily closed" };
+}
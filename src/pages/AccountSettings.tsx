@@ -0,0 +1,85 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, LogOut, Scissors, Smartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ROLE_HOME } from "@/lib/roles";
+import ProfileDetailsCard from "@/components/ProfileDetailsCard";
+import ChangeEmailCard from "@/components/ChangeEmailCard";
+import ChangePasswordCard from "@/components/ChangePasswordCard";
+import LinkPhoneDialog from "@/components/LinkPhoneDialog";
+
+const AccountSettings = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, role, signOut } = useAuth();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate('/');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to sign out. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10">
+      {/* Header */}
+      <header className="p-6 border-b bg-card/50 backdrop-blur-sm">
+        <div className="max-w-3xl mx-auto flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate(role ? ROLE_HOME[role] : '/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-primary rounded-xl">
+              <Scissors className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-xl font-bold">Account Settings</h1>
+          </div>
+          <Button variant="ghost" onClick={handleSignOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out
+          </Button>
+        </div>
+      </header>
+
+      <div className="p-6 max-w-3xl mx-auto space-y-6">
+        <ProfileDetailsCard />
+        <ChangeEmailCard />
+        <ChangePasswordCard />
+        <Card className="shadow-soft bg-gradient-card border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Smartphone className="h-5 w-5" />
+              Phone Sign-in
+            </CardTitle>
+            <CardDescription>Sign in with a code sent by text message</CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center justify-between gap-4">
+            {user?.phone ? (
+              <>
+                <span className="font-medium">+{user.phone}</span>
+                <Badge variant="success">Verified</Badge>
+              </>
+            ) : (
+              <>
+                <span className="text-sm text-muted-foreground">No phone number linked</span>
+                <LinkPhoneDialog />
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSettings;
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ClipboardList, Loader2, LogOut, MapPin, RefreshCw, Scissors } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import RegistrationRequestCard from "@/components/RegistrationRequestCard";
+import ReviewModerationQueue from "@/components/ReviewModerationQueue";
+import { backfillShopLocations, GeocodeError } from "@/lib/geocoding";
+import type { Tables } from "@/integrations/supabase/types";
+
+type RegistrationRequest = Tables<"barber_registration_requests">;
+
+const REQUEST_STATUSES = ["pending", "approved", "rejected"] as const;
+
+const AdminDashboard = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { signOut } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [requests, setRequests] = useState<RegistrationRequest[]>([]);
+  const [activeSection, setActiveSection] = useState<string>("registrations");
+  const [activeTab, setActiveTab] = useState<string>("pending");
+  const [recomputing, setRecomputing] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('barber_registration_requests')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setRequests(data || []);
+    } catch (error) {
+      console.error("Error fetching registration requests:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load registration requests.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    // Access is enforced by RequireRole and the admin-only RLS policies
+    const loadRequests = async () => {
+      await fetchRequests();
+      setLoading(false);
+    };
+
+    loadRequests();
+  }, [fetchRequests]);
+
+  const handleReviewed = (updated: RegistrationRequest) => {
+    setRequests(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+  };
+
+  // Repairs ratings and booking counts if they ever drift from the underlying rows
+  const handleRecomputeStats = async () => {
+    setRecomputing(true);
+
+    try {
+      const { data, error } = await supabase.rpc('recompute_shop_stats');
+
+      if (error) throw error;
+
+      toast({
+        title: "Shop stats recomputed",
+        description: `Ratings and booking counts refreshed for ${data} ${data === 1 ? "shop" : "shops"}.`,
+      });
+    } catch (error) {
+      console.error("Error recomputing shop stats:", error);
+      toast({
+        title: "Error",
+        description: "Failed to recompute shop stats. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRecomputing(false);
+    }
+  };
+
+  // Places shops created before geocoding existed; run again while some remain
+  const handleLocateShops = async () => {
+    setLocating(true);
+
+    try {
+      const { located, failed, remaining, unresolved } = await backfillShopLocations();
+
+      toast({
+        title: "Shops located",
+        description: `${located} placed on the map, ${failed} failed. ${remaining} left to locate, ${unresolved} need a pin from their barber.`,
+      });
+    } catch (error) {
+      const { title, description } = error instanceof GeocodeError
+        ? error
+        : new GeocodeError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate('/');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to sign out. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10 flex items-center justify-center">
+        <div className="text-center">
+          <div className="p-4 bg-gradient-primary rounded-2xl w-fit mx-auto mb-4 animate-pulse">
+            <Scissors className="h-8 w-8 text-primary-foreground" />
+          </div>
+          <p className="text-muted-foreground">Loading admin console...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10">
+      {/* Header */}
+      <header className="p-6 border-b bg-card/50 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-primary rounded-xl">
+              <Scissors className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">TrimTime Admin</h1>
+              <p className="text-sm text-muted-foreground">Barber registrations and review moderation</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={handleRecomputeStats} disabled={recomputing}>
+              {recomputing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Recompute Stats
+            </Button>
+            <Button variant="outline" onClick={handleLocateShops} disabled={locating}>
+              {locating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <MapPin className="h-4 w-4 mr-2" />}
+              Locate Shops
+            </Button>
+            <Button variant="ghost" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="p-6 max-w-7xl mx-auto">
+        <Tabs value={activeSection} onValueChange={setActiveSection} className="w-full">
+          <TabsList className="grid w-full grid-cols-2 mb-6">
+            <TabsTrigger value="registrations">Registrations</TabsTrigger>
+            <TabsTrigger value="reviews">Reported Reviews</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="registrations">
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-3">
+                {REQUEST_STATUSES.map((status) => (
+                  <TabsTrigger key={status} value={status} className="capitalize">
+                    {status} ({requests.filter(r => r.status === status).length})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+
+              {REQUEST_STATUSES.map((status) => {
+                const filtered = requests.filter(r => r.status === status);
+
+                return (
+                  <TabsContent key={status} value={status} className="mt-6">
+                    {filtered.length === 0 ? (
+                      <Card className="p-8 text-center shadow-soft bg-gradient-card border-0">
+                        <CardContent className="p-0">
+                          <ClipboardList className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                          <h3 className="text-lg font-semibold mb-2">No {status} requests</h3>
+                          <p className="text-muted-foreground">
+                            {status === 'pending' ? "You're all caught up!" : `Requests you mark as ${status} will appear here.`}
+                          </p>
+                        </CardContent>
+                      </Card>
+                    ) : (
+                      <div className="space-y-4">
+                        {filtered.map((request) => (
+                          <RegistrationRequestCard key={request.id} request={request} onReviewed={handleReviewed} />
+                        ))}
+                      </div>
+                    )}
+                  </TabsContent>
+                );
+              })}
+            </Tabs>
+          </TabsContent>
+
+          <TabsContent value="reviews">
+            <ReviewModerationQueue />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default AdminDashboard;
@@ -1,22 +1,28 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Scissors, ArrowLeft, Loader2 } from "lucide-react";
+import { Scissors, ArrowLeft, Loader2, Mail, Smartphone } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { User, Session } from '@supabase/supabase-js';
+import { useAuth } from "@/hooks/use-auth";
+import { ROLE_HOME } from "@/lib/roles";
+import PhoneAuthForm from "@/components/PhoneAuthForm";
+import ForgotPasswordForm from "@/components/ForgotPasswordForm";
 
 const Auth = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
-  const [user, setUser] = useState<User | null>(null);
-  const [session, setSession] = useState<Session | null>(null);
+  const { user, role, loading: authLoading, signOut } = useAuth();
   const [activeTab, setActiveTab] = useState("signin");
+  const [method, setMethod] = useState<"email" | "phone">("email");
+  const [forgotPassword, setForgotPassword] = useState(false);
 
   const [formData, setFormData] = useState({
     email: "",
@@ -25,35 +31,15 @@ const Auth = () => {
     phone: "",
   });
 
-  useEffect(() => {
-    // Set up auth state listener first
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setSession(session);
-        setUser(session?.user ?? null);
-        
-        if (session?.user) {
-          // Redirect based on role after successful authentication
-          setTimeout(() => {
-            const role = localStorage.getItem('selected_role') || 'customer';
-            if (role === 'customer') {
-              navigate('/customer-dashboard');
-            } else if (role === 'barber') {
-              navigate('/barber-dashboard');
-            }
-          }, 100);
-        }
-      }
-    );
-
-    // Then check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-    });
+  // Page that sent the visitor here via RequireAuth, if any
+  const from = (location.state as { from?: string } | null)?.from;
 
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+  // Send signed-in users back where they came from, or to the home of their role
+  useEffect(() => {
+    if (!authLoading && user) {
+      navigate(from || (role ? ROLE_HOME[role] : '/customer-dashboard'), { replace: true });
+    }
+  }, [authLoading, user, role, from, navigate]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
@@ -67,20 +53,19 @@ const Auth = () => {
     setLoading(true);
 
     try {
-      const role = localStorage.getItem('selected_role') || 'customer';
       const redirectUrl = `${window.location.origin}/`;
 
-      console.log('Starting sign up with:', { email: formData.email, role, redirectUrl });
+      console.log('Starting sign up with:', { email: formData.email, redirectUrl });
 
       const { data, error } = await supabase.auth.signUp({
         email: formData.email,
         password: formData.password,
         options: {
           emailRedirectTo: redirectUrl,
+          // Self sign-up always creates a customer; the role is assigned server-side
           data: {
             name: formData.name,
-            phone: formData.phone,
-            role: role
+            phone: formData.phone
           }
         }
       });
@@ -152,8 +137,7 @@ const Auth = () => {
 
   const handleSignOut = async () => {
     try {
-      await supabase.auth.signOut();
-      localStorage.removeItem('selected_role');
+      await signOut();
       navigate('/');
     } catch (error) {
       toast({
@@ -178,8 +162,8 @@ const Auth = () => {
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="p-4 bg-muted/50 rounded-lg">
-              <p className="text-sm text-muted-foreground">Email</p>
-              <p className="font-medium">{user.email}</p>
+              <p className="text-sm text-muted-foreground">{user.email ? "Email" : "Phone"}</p>
+              <p className="font-medium">{user.email || `+${user.phone}`}</p>
             </div>
             <Button 
               onClick={handleSignOut}
@@ -222,7 +206,7 @@ const Auth = () => {
           <CardHeader className="text-center">
             <CardTitle className="text-2xl">Welcome to TrimTime</CardTitle>
             <CardDescription>
-              {localStorage.getItem('selected_role') === 'barber' 
+              {searchParams.get('as') === 'barber' 
                 ? "Sign in to your barber account" 
                 : "Sign in or create your customer account"}
             </CardDescription>
@@ -235,105 +219,133 @@ const Auth = () => {
               </TabsList>
 
               <TabsContent value="signin">
-                <form onSubmit={handleSignIn} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="email">Email</Label>
-                    <Input
-                      id="email"
-                      name="email"
-                      type="email"
-                      value={formData.email}
-                      onChange={handleInputChange}
-                      placeholder="Enter your email"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="password">Password</Label>
-                    <Input
-                      id="password"
-                      name="password"
-                      type="password"
-                      value={formData.password}
-                      onChange={handleInputChange}
-                      placeholder="Enter your password"
-                      required
-                    />
-                  </div>
-                  <Button 
-                    type="submit" 
-                    className="w-full" 
-                    disabled={loading}
-                    variant="hero"
-                  >
-                    {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Sign In
-                  </Button>
-                </form>
+                {method === "phone" ? (
+                  <PhoneAuthForm mode="signin" />
+                ) : forgotPassword ? (
+                  <ForgotPasswordForm defaultEmail={formData.email} onBack={() => setForgotPassword(false)} />
+                ) : (
+                  <form onSubmit={handleSignIn} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="email">Email</Label>
+                      <Input
+                        id="email"
+                        name="email"
+                        type="email"
+                        value={formData.email}
+                        onChange={handleInputChange}
+                        placeholder="Enter your email"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="password">Password</Label>
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="h-auto p-0 text-sm"
+                          onClick={() => setForgotPassword(true)}
+                        >
+                          Forgot password?
+                        </Button>
+                      </div>
+                      <Input
+                        id="password"
+                        name="password"
+                        type="password"
+                        value={formData.password}
+                        onChange={handleInputChange}
+                        placeholder="Enter your password"
+                        required
+                      />
+                    </div>
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={loading}
+                      variant="hero"
+                    >
+                      {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Sign In
+                    </Button>
+                  </form>
+                )}
               </TabsContent>
 
               <TabsContent value="signup">
-                <form onSubmit={handleSignUp} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="name">Full Name</Label>
-                    <Input
-                      id="name"
-                      name="name"
-                      type="text"
-                      value={formData.name}
-                      onChange={handleInputChange}
-                      placeholder="Enter your full name"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="phone">Phone Number</Label>
-                    <Input
-                      id="phone"
-                      name="phone"
-                      type="tel"
-                      value={formData.phone}
-                      onChange={handleInputChange}
-                      placeholder="Enter your phone number"
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="email">Email</Label>
-                    <Input
-                      id="email"
-                      name="email"
-                      type="email"
-                      value={formData.email}
-                      onChange={handleInputChange}
-                      placeholder="Enter your email"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="password">Password</Label>
-                    <Input
-                      id="password"
-                      name="password"
-                      type="password"
-                      value={formData.password}
-                      onChange={handleInputChange}
-                      placeholder="Create a password"
-                      required
-                      minLength={6}
-                    />
-                  </div>
-                  <Button 
-                    type="submit" 
-                    className="w-full" 
-                    disabled={loading}
-                    variant="hero"
-                  >
-                    {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Create Account
-                  </Button>
-                </form>
+                {method === "phone" ? (
+                  <PhoneAuthForm mode="signup" />
+                ) : (
+                  <form onSubmit={handleSignUp} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Full Name</Label>
+                      <Input
+                        id="name"
+                        name="name"
+                        type="text"
+                        value={formData.name}
+                        onChange={handleInputChange}
+                        placeholder="Enter your full name"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="phone">Phone Number</Label>
+                      <Input
+                        id="phone"
+                        name="phone"
+                        type="tel"
+                        value={formData.phone}
+                        onChange={handleInputChange}
+                        placeholder="Enter your phone number"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="email">Email</Label>
+                      <Input
+                        id="email"
+                        name="email"
+                        type="email"
+                        value={formData.email}
+                        onChange={handleInputChange}
+                        placeholder="Enter your email"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="password">Password</Label>
+                      <Input
+                        id="password"
+                        name="password"
+                        type="password"
+                        value={formData.password}
+                        onChange={handleInputChange}
+                        placeholder="Create a password"
+                        required
+                        minLength={6}
+                      />
+                    </div>
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={loading}
+                      variant="hero"
+                    >
+                      {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Create Account
+                    </Button>
+                  </form>
+                )}
               </TabsContent>
             </Tabs>
+            <Button
+              variant="ghost"
+              className="w-full mt-4"
+              onClick={() => setMethod(method === "email" ? "phone" : "email")}
+            >
+              {method === "email" ? <Smartphone className="h-4 w-4 mr-2" /> : <Mail className="h-4 w-4 mr-2" />}
+              {method === "email" ? "Use phone number instead" : "Use email instead"}
+            </Button>
           </CardContent>
         </Card>
       </div>
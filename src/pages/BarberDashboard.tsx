@@ -5,9 +5,6 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { 
   Scissors, 
   Users, 
@@ -18,46 +15,61 @@ import {
   LogOut,
   CheckCircle,
   XCircle,
-  UserX,
-  Plus
+  UserCog,
+  UserX
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { User } from '@supabase/supabase-js';
-
-interface Booking {
-  id: string;
-  service_name: string;
-  service_price: number;
-  status: string;
-  queue_position?: number;
-  joined_at: string;
-  user_id: string;
-  profiles: {
-    name: string;
-    phone: string;
-  };
-}
+import { useAuth } from "@/hooks/use-auth";
+import { useQueueSubscription } from "@/hooks/use-queue-subscription";
+import ServiceCatalogEditor from "@/components/ServiceCatalogEditor";
+import WorkingHoursEditor from "@/components/WorkingHoursEditor";
+import DurationInsightsCard from "@/components/DurationInsightsCard";
+import ShopSettingsForm from "@/components/ShopSettingsForm";
+import WalkInDialog from "@/components/WalkInDialog";
+import BarberReviewsPanel from "@/components/BarberReviewsPanel";
+import ShopLocationPicker from "@/components/ShopLocationPicker";
+import { activeServices, parseServices } from "@/lib/services";
+import type { Json } from "@/integrations/supabase/types";
 
 interface BarberShop {
   id: string;
   shop_name: string;
   shop_address: string;
-  services: any;
-  working_hours: any;
+  latitude: number | null;
+  longitude: number | null;
+  services: Json;
+  working_hours: Json;
   rating_avg: number;
   total_reviews: number;
   total_bookings: number;
   max_queue_limit: number;
   avg_service_duration: number;
+  chair_count: number;
+  learned_duration_median: number | null;
+  learned_duration_p80: number | null;
+  learned_duration_samples: number;
 }
 
 const BarberDashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [currentQueue, setCurrentQueue] = useState<Booking[]>([]);
+  const { user, signOut } = useAuth();
   const [myShop, setMyShop] = useState<BarberShop | null>(null);
+  const { queue: currentQueue } = useQueueSubscription(myShop?.id, (payload) => {
+    if (payload.eventType !== 'UPDATE') return;
+
+    // Let the barber know when a customer leaves the queue on their own
+    const { new: updated, old: previous } = payload;
+    if (updated.status === 'cancelled' && previous.status === 'waiting' && updated.cancelled_by && updated.cancelled_by !== user?.id) {
+      const customer = currentQueue.find(b => b.id === updated.id)?.profiles.name || 'A customer';
+      toast({
+        title: "Customer Left Queue",
+        description: updated.cancellation_reason
+          ? `${customer} left the queue: ${updated.cancellation_reason}`
+          : `${customer} left the queue.`,
+      });
+    }
+  });
   const [activeTab, setActiveTab] = useState("queue");
   const [todayStats, setTodayStats] = useState({
     totalBookings: 0,
@@ -66,47 +78,18 @@ const BarberDashboard = () => {
     totalIncome: 0
   });
 
-  useEffect(() => {
-    // Check authentication and role
-    const checkAuth = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate('/auth');
-        return;
-      }
-
-      // Check if user is a barber
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('user_id', session.user.id)
-        .single();
-
-      if (profile?.role !== 'barber') {
-        toast({
-          title: "Access Denied",
-          description: "You don't have barber access. Please contact admin.",
-          variant: "destructive",
-        });
-        navigate('/');
-        return;
-      }
-
-      setUser(session.user);
-      setLoading(false);
-    };
-
-    checkAuth();
-  }, [navigate, toast]);
-
   useEffect(() => {
     if (user) {
       fetchMyShop();
-      fetchCurrentQueue();
-      fetchTodayStats();
     }
   }, [user]);
 
+  useEffect(() => {
+    if (myShop) {
+      fetchTodayStats();
+    }
+  }, [myShop]);
+
   const fetchMyShop = async () => {
     if (!user) return;
 
@@ -128,54 +111,6 @@ const BarberDashboard = () => {
     }
   };
 
-  const fetchCurrentQueue = async () => {
-    if (!myShop) return;
-
-    try {
-      // First get bookings
-      const { data: bookings, error: bookingsError } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('shop_id', myShop.id)
-        .in('status', ['waiting', 'in_progress'])
-        .order('joined_at', { ascending: true });
-
-      if (bookingsError) throw bookingsError;
-
-      if (!bookings || bookings.length === 0) {
-        setCurrentQueue([]);
-        return;
-      }
-
-      // Get user IDs from bookings
-      const userIds = bookings.map(booking => booking.user_id);
-
-      // Get profiles for these users
-      const { data: profiles, error: profilesError } = await supabase
-        .from('profiles')
-        .select('user_id, name, phone')
-        .in('user_id', userIds);
-
-      if (profilesError) throw profilesError;
-
-      // Combine bookings with profiles
-      const formattedBookings = bookings.map(booking => {
-        const profile = profiles?.find(p => p.user_id === booking.user_id);
-        return {
-          ...booking,
-          profiles: {
-            name: profile?.name || 'Unknown Customer',
-            phone: profile?.phone || '',
-          }
-        };
-      });
-
-      setCurrentQueue(formattedBookings);
-    } catch (error) {
-      console.error("Error fetching queue:", error);
-    }
-  };
-
   const fetchTodayStats = async () => {
     if (!myShop) return;
 
@@ -215,6 +150,9 @@ const BarberDashboard = () => {
         updateData.started_at = new Date().toISOString();
       } else if (status === 'completed') {
         updateData.completed_at = new Date().toISOString();
+      } else if (status === 'cancelled') {
+        updateData.cancelled_at = new Date().toISOString();
+        updateData.cancelled_by = user?.id;
       }
 
       const { error } = await supabase
@@ -224,18 +162,19 @@ const BarberDashboard = () => {
 
       if (error) throw error;
 
-      // Update queue positions
-      if (myShop) {
-        await supabase.rpc('update_queue_positions', { shop_uuid: myShop.id });
-      }
+      // Queue positions and wait estimates are recomputed by the bookings trigger
 
       toast({
         title: "Status Updated",
         description: `Booking marked as ${status.replace('_', ' ')}.`,
       });
 
-      fetchCurrentQueue();
-      fetchTodayStats();
+      // Completed visits count towards total_bookings on the shop row
+      if (status === 'completed') {
+        fetchMyShop();
+      } else {
+        fetchTodayStats();
+      }
     } catch (error) {
       toast({
         title: "Update Failed",
@@ -245,43 +184,9 @@ const BarberDashboard = () => {
     }
   };
 
-  const addWalkInCustomer = async () => {
-    if (!myShop) return;
-
-    try {
-      // For now, we'll create a placeholder booking
-      // In a real implementation, you'd have a form to collect customer details
-      const { error } = await supabase
-        .from('bookings')
-        .insert({
-          user_id: user!.id, // Using barber's ID as placeholder
-          shop_id: myShop.id,
-          service_name: "Walk-in Haircut",
-          service_price: 25,
-          status: 'waiting'
-        });
-
-      if (error) throw error;
-
-      toast({
-        title: "Walk-in Added",
-        description: "Walk-in customer added to queue.",
-      });
-
-      fetchCurrentQueue();
-    } catch (error) {
-      toast({
-        title: "Failed to Add",
-        description: "Failed to add walk-in customer.",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleSignOut = async () => {
     try {
-      await supabase.auth.signOut();
-      localStorage.removeItem('selected_role');
+      await signOut();
       navigate('/');
     } catch (error) {
       toast({
@@ -292,19 +197,6 @@ const BarberDashboard = () => {
     }
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10 flex items-center justify-center">
-        <div className="text-center">
-          <div className="p-4 bg-gradient-primary rounded-2xl w-fit mx-auto mb-4 animate-pulse">
-            <Scissors className="h-8 w-8 text-primary-foreground" />
-          </div>
-          <p className="text-muted-foreground">Loading your barber dashboard...</p>
-        </div>
-      </div>
-    );
-  }
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'waiting': return 'warning';
@@ -329,10 +221,16 @@ const BarberDashboard = () => {
               <p className="text-sm text-muted-foreground">Barber Dashboard</p>
             </div>
           </div>
-          <Button variant="ghost" onClick={handleSignOut}>
-            <LogOut className="h-4 w-4 mr-2" />
-            Sign Out
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => navigate('/account')}>
+              <UserCog className="h-4 w-4 mr-2" />
+              Account
+            </Button>
+            <Button variant="ghost" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -370,9 +268,10 @@ const BarberDashboard = () => {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="queue">Queue Management</TabsTrigger>
             <TabsTrigger value="settings">Shop Settings</TabsTrigger>
+            <TabsTrigger value="reviews">Reviews</TabsTrigger>
             <TabsTrigger value="reports">Daily Report</TabsTrigger>
           </TabsList>
 
@@ -380,10 +279,7 @@ const BarberDashboard = () => {
             <div className="space-y-6">
               <div className="flex items-center justify-between">
                 <h2 className="text-2xl font-bold">Current Queue ({currentQueue.length})</h2>
-                <Button onClick={addWalkInCustomer} variant="secondary">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Walk-in
-                </Button>
+                {myShop && <WalkInDialog shopId={myShop.id} services={activeServices(myShop.services)} />}
               </div>
 
               {currentQueue.length === 0 ? (
@@ -407,8 +303,16 @@ const BarberDashboard = () => {
                               </span>
                             </div>
                             <div>
-                              <h3 className="font-semibold">{booking.profiles.name}</h3>
+                              <div className="flex items-center gap-2">
+                                <h3 className="font-semibold">{booking.profiles.name}</h3>
+                                {!booking.user_id && (
+                                  <Badge variant="outline" className="text-xs">Walk-in</Badge>
+                                )}
+                              </div>
                               <p className="text-sm text-muted-foreground">{booking.service_name}</p>
+                              {booking.profiles.phone && (
+                                <p className="text-xs text-muted-foreground">{booking.profiles.phone}</p>
+                              )}
                               <p className="text-xs text-muted-foreground">
                                 Joined: {new Date(booking.joined_at).toLocaleTimeString()}
                               </p>
@@ -419,7 +323,9 @@ const BarberDashboard = () => {
                             <Badge variant={getStatusColor(booking.status)}>
                               {booking.status.replace('_', ' ')}
                             </Badge>
-                            <span className="font-semibold">${booking.service_price}</span>
+                            {booking.service_price !== null && (
+                              <span className="font-semibold">${booking.service_price}</span>
+                            )}
                           </div>
                         </div>
 
@@ -474,37 +380,29 @@ const BarberDashboard = () => {
               
               {myShop ? (
                 <div className="grid md:grid-cols-2 gap-6">
-                  <Card className="shadow-soft bg-gradient-card border-0">
-                    <CardHeader>
-                      <CardTitle>Basic Information</CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div>
-                        <Label>Shop Name</Label>
-                        <Input value={myShop.shop_name} readOnly />
-                      </div>
-                      <div>
-                        <Label>Address</Label>
-                        <Textarea value={myShop.shop_address} readOnly />
-                      </div>
-                    </CardContent>
-                  </Card>
-
-                  <Card className="shadow-soft bg-gradient-card border-0">
-                    <CardHeader>
-                      <CardTitle>Queue Settings</CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div>
-                        <Label>Max Queue Limit</Label>
-                        <Input value={myShop.max_queue_limit} readOnly />
-                      </div>
-                      <div>
-                        <Label>Avg Service Duration (minutes)</Label>
-                        <Input value={myShop.avg_service_duration} readOnly />
-                      </div>
-                    </CardContent>
-                  </Card>
+                  <ShopSettingsForm
+                    key={myShop.id}
+                    shop={myShop}
+                    onChange={(settings) => setMyShop(prev => prev && { ...prev, ...settings })}
+                    onLocationChange={(location) => setMyShop(prev => prev && { ...prev, ...location })}
+                  />
+
+                  <ShopLocationPicker
+                    shop={myShop}
+                    onChange={(location) => setMyShop(prev => prev && { ...prev, ...location })}
+                  />
+
+                  <ServiceCatalogEditor
+                    shopId={myShop.id}
+                    services={parseServices(myShop.services)}
+                    onChange={(services) => setMyShop(prev => prev && { ...prev, services })}
+                  />
+
+                  <WorkingHoursEditor
+                    shopId={myShop.id}
+                    workingHours={myShop.working_hours}
+                    onChange={(working_hours) => setMyShop(prev => prev && { ...prev, working_hours })}
+                  />
                 </div>
               ) : (
                 <Card className="p-8 text-center shadow-soft bg-gradient-card border-0">
@@ -520,6 +418,26 @@ const BarberDashboard = () => {
             </div>
           </TabsContent>
 
+          <TabsContent value="reviews" className="mt-6">
+            <div className="space-y-6">
+              <h2 className="text-2xl font-bold">Customer Reviews</h2>
+
+              {myShop && user ? (
+                <BarberReviewsPanel shopId={myShop.id} responderId={user.id} />
+              ) : (
+                <Card className="p-8 text-center shadow-soft bg-gradient-card border-0">
+                  <CardContent className="p-0">
+                    <Star className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">Shop Not Set Up</h3>
+                    <p className="text-muted-foreground">
+                      Reviews will appear here once your shop is live.
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </TabsContent>
+
           <TabsContent value="reports" className="mt-6">
             <div className="space-y-6">
               <h2 className="text-2xl font-bold">Daily Report</h2>
@@ -574,6 +492,8 @@ const BarberDashboard = () => {
                     )}
                   </CardContent>
                 </Card>
+
+                {myShop && <DurationInsightsCard shop={myShop} />}
               </div>
             </div>
           </TabsContent>
@@ -6,8 +6,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Scissors, ArrowLeft, Loader2, CheckCircle, Mail } from "lucide-react";
+import { Scissors, ArrowLeft, Loader2, CheckCircle, ClipboardCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import TimezoneSelect from "@/components/TimezoneSelect";
+import { localTimezone } from "@/lib/working-hours";
 
 const BarberRegistration = () => {
   const navigate = useNavigate();
@@ -17,11 +19,13 @@ const BarberRegistration = () => {
 
   const [formData, setFormData] = useState({
     name: "",
+    email: "",
     phone: "",
     shopName: "",
     shopAddress: "",
     servicesOffered: "",
     workingHours: "",
+    timezone: localTimezone(),
   });
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -40,11 +44,13 @@ const BarberRegistration = () => {
         .from('barber_registration_requests')
         .insert({
           name: formData.name,
+          email: formData.email,
           phone: formData.phone,
           shop_name: formData.shopName,
           shop_address: formData.shopAddress,
           services_offered: formData.servicesOffered,
           working_hours: formData.workingHours,
+          timezone: formData.timezone,
         });
 
       if (error) {
@@ -89,14 +95,14 @@ const BarberRegistration = () => {
               <h3 className="font-semibold text-lg mb-3">What's Next?</h3>
               <div className="space-y-3 text-sm">
                 <div className="flex items-center gap-3 justify-center">
-                  <Mail className="h-4 w-4 text-primary" />
-                  <span>Send your details to <strong>coderz360@gmail.com</strong></span>
+                  <ClipboardCheck className="h-4 w-4 text-primary" />
+                  <span>Your request is now in our review queue</span>
                 </div>
                 <p className="text-muted-foreground">
-                  Our team will verify your information and manually create your barber account
+                  Once approved, you'll receive an email invitation to set up your barber account
                 </p>
                 <p className="text-muted-foreground">
-                  You'll receive login credentials via email or WhatsApp within 1-2 business days
+                  Reviews usually take 1-2 business days
                 </p>
               </div>
             </div>
@@ -113,11 +119,13 @@ const BarberRegistration = () => {
                   setSubmitted(false);
                   setFormData({
                     name: "",
+                    email: "",
                     phone: "",
                     shopName: "",
                     shopAddress: "",
                     servicesOffered: "",
                     workingHours: "",
+                    timezone: localTimezone(),
                   });
                 }}
                 variant="outline"
@@ -194,6 +202,19 @@ const BarberRegistration = () => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="email">Email *</Label>
+                <Input
+                  id="email"
+                  name="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  placeholder="We'll send your account invitation here"
+                  required
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="shopName">Shop Name *</Label>
                 <Input
@@ -246,10 +267,19 @@ const BarberRegistration = () => {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="timezone">Shop Timezone *</Label>
+                <TimezoneSelect
+                  id="timezone"
+                  value={formData.timezone}
+                  onChange={(timezone) => setFormData(prev => ({ ...prev, timezone }))}
+                />
+                <p className="text-sm text-muted-foreground">Your working hours are read in this timezone</p>
+              </div>
+
               <div className="p-4 bg-warning/10 rounded-lg border border-warning/20">
                 <p className="text-sm text-warning-foreground">
-                  <strong>Important:</strong> After submitting this form, please send these details to{" "}
-                  <strong>coderz360@gmail.com</strong>. Our team will verify your information and manually create your account within 1-2 business days.
+                  <strong>Important:</strong> Our team reviews every request and will verify your information before creating your account, usually within 1-2 business days.
                 </p>
               </div>
 
@@ -1,13 +1,29 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Scissors, MapPin, Clock, Star, Heart, Navigation, Phone, LogOut } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Scissors, MapPin, Clock, Star, Heart, Navigation, Phone, LogOut, UserCog, Loader2, LayoutGrid, Map as MapIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { User } from '@supabase/supabase-js';
+import { useAuth } from "@/hooks/use-auth";
+import { useMyActiveBookings } from "@/hooks/use-my-active-bookings";
+import { useShopQueueSummaries } from "@/hooks/use-shop-queue-summaries";
+import { useFavorites } from "@/hooks/use-favorites";
+import { NEARBY_RADIUS_OPTIONS, useNearbyShops, type Coordinates } from "@/hooks/use-nearby-shops";
+import { joinQueue, JoinQueueError } from "@/lib/queue";
+import { activeServices } from "@/lib/services";
+import { canEditReview, reviewTagLabel, type Review } from "@/lib/reviews";
+import ActiveBookingCard from "@/components/ActiveBookingCard";
+import ServicePickerDialog from "@/components/ServicePickerDialog";
+import OpenStatusBadge from "@/components/OpenStatusBadge";
+import FavoriteButton from "@/components/FavoriteButton";
+import ReviewDialog from "@/components/ReviewDialog";
+import StarRating from "@/components/StarRating";
+import NearbyShopsMap from "@/components/NearbyShopsMap";
+import type { Json } from "@/integrations/supabase/types";
 
 interface BarberShop {
   id: string;
@@ -15,23 +31,23 @@ interface BarberShop {
   shop_address: string;
   latitude: number | null;
   longitude: number | null;
-  services: any;
+  services: Json;
+  working_hours: Json;
   rating_avg: number;
   total_reviews: number;
   total_bookings: number;
   cover_image_url?: string | null;
-  current_queue_count?: number;
-  estimated_wait_time?: number;
-  distance?: number;
 }
 
 interface Booking {
   id: string;
+  shop_id: string;
   service_name: string;
   service_price: number;
   status: string;
   queue_position?: number;
   estimated_wait_time?: number;
+  cancellation_reason?: string | null;
   joined_at: string;
   shop: {
     shop_name: string;
@@ -42,31 +58,34 @@ interface Booking {
 const CustomerDashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [nearbyShops, setNearbyShops] = useState<BarberShop[]>([]);
+  const { user, profile, signOut } = useAuth();
   const [topShops, setTopShops] = useState<BarberShop[]>([]);
   const [myBookings, setMyBookings] = useState<Booking[]>([]);
-  const [userLocation, setUserLocation] = useState<{lat: number, lng: number} | null>(null);
+  const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
+  const [radiusKm, setRadiusKm] = useState(10);
+  const [nearbyView, setNearbyView] = useState<"grid" | "map">("grid");
   const [activeTab, setActiveTab] = useState("nearby");
+  const [bookingShop, setBookingShop] = useState<BarberShop | null>(null);
+  const [myReviews, setMyReviews] = useState<Record<string, Review>>({});
+  const [reviewingBooking, setReviewingBooking] = useState<Booking | null>(null);
+  const { bookings: activeBookings } = useMyActiveBookings(user?.id, () => fetchMyBookings());
+  const { shops: favoriteShops, isFavorite, toggleFavorite } = useFavorites(user?.id);
+  const {
+    shops: nearbyShops,
+    hasMore: hasMoreNearby,
+    loading: nearbyLoading,
+    loadMore: loadMoreNearby,
+  } = useNearbyShops(userLocation, radiusKm);
+  // Live updates for the shops listed here only; nearby cards start from the search's counts
+  const { summaries: queueSummaries } = useShopQueueSummaries([
+    ...nearbyShops.map(shop => shop.id),
+    ...favoriteShops.map(shop => shop.id),
+  ]);
 
   useEffect(() => {
-    // Check authentication
-    const checkAuth = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate('/auth');
-        return;
-      }
-      setUser(session.user);
-      setLoading(false);
-    };
-
-    checkAuth();
-
-    // Get user location only once
+    // Nearby search needs the location on every visit; the denial notice is only shown once
     const locationRequested = localStorage.getItem('location_requested');
-    if (navigator.geolocation && !locationRequested) {
+    if (navigator.geolocation) {
       localStorage.setItem('location_requested', 'true');
       navigator.geolocation.getCurrentPosition(
         (position) => {
@@ -77,7 +96,7 @@ const CustomerDashboard = () => {
         },
         (error) => {
           console.error("Location error:", error);
-          if (error.code === 1) {
+          if (error.code === 1 && !locationRequested) {
             toast({
               title: "Location Access Denied",
               description: "Location access was denied. You can still browse shops without location-based sorting.",
@@ -87,56 +106,15 @@ const CustomerDashboard = () => {
         { timeout: 10000, maximumAge: 600000 }
       );
     }
-  }, [navigate, toast]);
+  }, [toast]);
 
   useEffect(() => {
     if (user) {
-      fetchNearbyShops();
       fetchTopShops();
       fetchMyBookings();
+      fetchMyReviews();
     }
-  }, [user, userLocation]);
-
-  // Calculate distance using Haversine formula
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
-
-  const fetchNearbyShops = async () => {
-    try {
-      const { data: shops, error } = await supabase
-        .from('barber_shops')
-        .select('*')
-        .eq('is_active', true);
-
-      if (error) throw error;
-
-      // Calculate distances and sort by nearest
-      const shopsWithDistance = shops?.map(shop => {
-        const distance = userLocation && shop.latitude && shop.longitude
-          ? calculateDistance(userLocation.lat, userLocation.lng, shop.latitude, shop.longitude)
-          : 0;
-        
-        return {
-          ...shop,
-          distance,
-          current_queue_count: Math.floor(Math.random() * 5), // Mock data for now
-          estimated_wait_time: Math.floor(Math.random() * 60) + 15, // Mock data
-        };
-      }).sort((a, b) => (a.distance || 0) - (b.distance || 0)) || [];
-
-      setNearbyShops(shopsWithDistance);
-    } catch (error) {
-      console.error("Error fetching nearby shops:", error);
-    }
-  };
+  }, [user]);
 
   const fetchTopShops = async () => {
     try {
@@ -187,10 +165,33 @@ const CustomerDashboard = () => {
     }
   };
 
+  const fetchMyReviews = async () => {
+    if (!user) return;
+
+    try {
+      const { data: reviews, error } = await supabase
+        .from('reviews')
+        .select('*')
+        .eq('user_id', user.id)
+        .not('booking_id', 'is', null);
+
+      if (error) throw error;
+
+      setMyReviews(Object.fromEntries((reviews || []).map(r => [r.booking_id, r])));
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+    }
+  };
+
+  const handleReviewSaved = (review: Review) => {
+    if (review.booking_id) {
+      setMyReviews(prev => ({ ...prev, [review.booking_id!]: review }));
+    }
+  };
+
   const handleSignOut = async () => {
     try {
-      await supabase.auth.signOut();
-      localStorage.removeItem('selected_role');
+      await signOut();
       navigate('/');
     } catch (error) {
       toast({
@@ -201,21 +202,11 @@ const CustomerDashboard = () => {
     }
   };
 
-  const joinQueue = async (shopId: string, serviceName: string, servicePrice: number) => {
+  const handleJoinQueue = async (shopId: string, serviceId?: string) => {
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('bookings')
-        .insert({
-          user_id: user.id,
-          shop_id: shopId,
-          service_name: serviceName,
-          service_price: servicePrice,
-          status: 'waiting'
-        });
-
-      if (error) throw error;
+      await joinQueue(shopId, serviceId);
 
       toast({
         title: "Booking Confirmed!",
@@ -223,28 +214,82 @@ const CustomerDashboard = () => {
       });
 
       fetchMyBookings();
+      setBookingShop(null);
       setActiveTab("bookings");
     } catch (error) {
+      const { title, description } = error instanceof JoinQueueError
+        ? error
+        : new JoinQueueError("unknown");
+
       toast({
-        title: "Booking Failed",
-        description: "Failed to join the queue. Please try again.",
+        title,
+        description,
         variant: "destructive",
       });
     }
   };
 
-  if (loading) {
+  // Shops with a service catalog ask the customer which service to book
+  const startBooking = (shop: BarberShop) => {
+    if (activeServices(shop.services).length === 0) {
+      handleJoinQueue(shop.id);
+    } else {
+      setBookingShop(shop);
+    }
+  };
+
+  // Service from the customer's last visit, if the shop still offers it
+  const lastServiceAt = (shop: BarberShop) => {
+    const lastBooking = myBookings.find(b => b.shop_id === shop.id && b.status !== 'cancelled');
+    return lastBooking && activeServices(shop.services).find(s => s.name === lastBooking.service_name);
+  };
+
+  const joinAgain = (shop: BarberShop) => {
+    const service = lastServiceAt(shop);
+    if (service) {
+      handleJoinQueue(shop.id, service.id);
+    } else {
+      startBooking(shop);
+    }
+  };
+
+  // Completed visits show the customer's review, or a prompt to leave one
+  const renderReview = (booking: Booking) => {
+    const review = myReviews[booking.id];
+
+    if (!review) {
+      return (
+        <div className="flex items-center gap-3 p-3 rounded-lg bg-primary/5 text-sm">
+          <span>How was your visit?</span>
+          <Button size="sm" variant="outline" onClick={() => setReviewingBooking(booking)}>
+            <Star className="h-4 w-4 mr-1" />
+            Leave a Review
+          </Button>
+        </div>
+      );
+    }
+
     return (
-      <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10 flex items-center justify-center">
-        <div className="text-center">
-          <div className="p-4 bg-gradient-primary rounded-2xl w-fit mx-auto mb-4 animate-pulse">
-            <Scissors className="h-8 w-8 text-primary-foreground" />
-          </div>
-          <p className="text-muted-foreground">Loading your dashboard...</p>
+      <div className="space-y-1 text-sm">
+        <div className="flex items-center gap-2">
+          <StarRating value={review.rating} />
+          {canEditReview(review) && (
+            <Button size="sm" variant="link" className="h-auto p-0" onClick={() => setReviewingBooking(booking)}>
+              Edit
+            </Button>
+          )}
         </div>
+        {review.tags && review.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {review.tags.map(tag => (
+              <Badge key={tag} variant="outline" className="text-xs">{reviewTagLabel(tag)}</Badge>
+            ))}
+          </div>
+        )}
+        {review.review_text && <p className="text-muted-foreground">{review.review_text}</p>}
       </div>
     );
-  }
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -256,6 +301,11 @@ const CustomerDashboard = () => {
     }
   };
 
+  // Active bookings are rendered live above the history list
+  const pastBookings = myBookings.filter(
+    (booking) => !activeBookings.some((active) => active.id === booking.id)
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10">
       {/* Header */}
@@ -267,13 +317,19 @@ const CustomerDashboard = () => {
             </div>
             <div>
               <h1 className="text-xl font-bold">TrimTime</h1>
-              <p className="text-sm text-muted-foreground">Welcome back, {user?.email}</p>
+              <p className="text-sm text-muted-foreground">Welcome back, {profile?.name || user?.email || `+${user?.phone}`}</p>
             </div>
           </div>
-          <Button variant="ghost" onClick={handleSignOut}>
-            <LogOut className="h-4 w-4 mr-2" />
-            Sign Out
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => navigate('/account')}>
+              <UserCog className="h-4 w-4 mr-2" />
+              Account
+            </Button>
+            <Button variant="ghost" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -300,16 +356,21 @@ const CustomerDashboard = () => {
                         <CardHeader>
                           <div className="flex items-start justify-between">
                             <div>
-                              <CardTitle className="text-lg">{shop.shop_name}</CardTitle>
+                              <CardTitle className="text-lg">
+                                <Link to={`/shops/${shop.id}`} className="hover:underline">{shop.shop_name}</Link>
+                              </CardTitle>
                               <CardDescription className="flex items-center gap-1 mt-1">
                                 <MapPin className="h-3 w-3" />
                                 {shop.shop_address}
                               </CardDescription>
                             </div>
-                            <Badge variant="secondary" className="bg-warning/10 text-warning border-warning/20">
-                              <Star className="h-3 w-3 mr-1" />
-                              {shop.rating_avg}
-                            </Badge>
+                            <div className="flex items-center gap-1">
+                              <Badge variant="secondary" className="bg-warning/10 text-warning border-warning/20">
+                                <Star className="h-3 w-3 mr-1" />
+                                {shop.rating_avg}
+                              </Badge>
+                              <FavoriteButton isFavorite={isFavorite(shop.id)} onToggle={() => toggleFavorite(shop.id)} />
+                            </div>
                           </div>
                         </CardHeader>
                         <CardContent>
@@ -320,8 +381,9 @@ const CustomerDashboard = () => {
                               <span>{shop.total_bookings} bookings</span>
                             </div>
                           </div>
+                          <OpenStatusBadge workingHours={shop.working_hours} className="mb-4" />
                           <Button 
-                            onClick={() => joinQueue(shop.id, "Haircut", 25)} 
+                            onClick={() => startBooking(shop)} 
                             className="w-full"
                             variant="hero"
                           >
@@ -336,64 +398,142 @@ const CustomerDashboard = () => {
 
               {/* Nearby Shops */}
               <div>
-                <h2 className="text-2xl font-bold mb-4 flex items-center gap-2">
-                  <Navigation className="h-6 w-6 text-primary" />
-                  Nearby Shops
-                </h2>
-                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {nearbyShops.map((shop) => (
-                    <Card key={shop.id} className="shadow-medium bg-gradient-card border-0 hover:shadow-strong transition-all duration-300">
-                      <CardHeader>
-                        <div className="flex items-start justify-between">
-                          <div>
-                            <CardTitle className="text-lg">{shop.shop_name}</CardTitle>
-                            <CardDescription className="flex items-center gap-1 mt-1">
-                              <MapPin className="h-3 w-3" />
-                              {shop.shop_address}
-                            </CardDescription>
-                          </div>
-                          {shop.distance && (
-                            <Badge variant="outline">
-                              {shop.distance.toFixed(1)} km
-                            </Badge>
-                          )}
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-3">
-                          <div className="flex items-center justify-between text-sm">
-                            <div className="flex items-center gap-2">
-                              <Clock className="h-4 w-4 text-muted-foreground" />
-                              <span>~{shop.estimated_wait_time} min wait</span>
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <Badge variant="secondary" className="text-xs">
-                                {shop.current_queue_count} in queue
-                              </Badge>
-                            </div>
-                          </div>
-                          
-                          {shop.rating_avg > 0 && (
-                            <div className="flex items-center gap-2 text-sm">
+                <div className="flex items-center justify-between gap-4 mb-4">
+                  <h2 className="text-2xl font-bold flex items-center gap-2">
+                    <Navigation className="h-6 w-6 text-primary" />
+                    Nearby Shops
+                  </h2>
+                  <div className="flex items-center gap-2">
+                    {userLocation && (
+                      <Select value={String(radiusKm)} onValueChange={(value) => setRadiusKm(Number(value))}>
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {NEARBY_RADIUS_OPTIONS.map((km) => (
+                            <SelectItem key={km} value={String(km)}>
+                              Within {km} km
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button
+                      size="icon"
+                      variant={nearbyView === "grid" ? "default" : "outline"}
+                      onClick={() => setNearbyView("grid")}
+                      aria-label="Show shops as cards"
+                    >
+                      <LayoutGrid className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant={nearbyView === "map" ? "default" : "outline"}
+                      onClick={() => setNearbyView("map")}
+                      aria-label="Show shops on a map"
+                    >
+                      <MapIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {nearbyShops.length === 0 && !nearbyLoading && (
+                  <Card className="p-8 text-center shadow-soft bg-gradient-card border-0">
+                    <CardContent className="p-0">
+                      <MapPin className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                      <h3 className="text-lg font-semibold mb-2">No shops nearby</h3>
+                      <p className="text-muted-foreground">
+                        {userLocation
+                          ? `No shops within ${radiusKm} km. Try a larger radius.`
+                          : "No shops are taking customers right now."}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+                {nearbyView === "map" ? (
+                  <NearbyShopsMap
+                    shops={nearbyShops}
+                    userLocation={userLocation}
+                    queueSummaries={queueSummaries}
+                    onJoinQueue={startBooking}
+                  />
+                ) : (
+                  <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {nearbyShops.map((shop) => {
+                      // Live counts where available, the search snapshot otherwise
+                      const summary = queueSummaries[shop.id] ?? shop;
+                      const waitingCount = summary.waiting_count;
+                      const inProgressCount = summary.in_progress_count;
+                      const waitTime = summary.estimated_wait_time;
+
+                      return (
+                        <Card key={shop.id} className="shadow-medium bg-gradient-card border-0 hover:shadow-strong transition-all duration-300">
+                          <CardHeader>
+                            <div className="flex items-start justify-between">
+                              <div>
+                                <CardTitle className="text-lg">
+                                  <Link to={`/shops/${shop.id}`} className="hover:underline">{shop.shop_name}</Link>
+                                </CardTitle>
+                                <CardDescription className="flex items-center gap-1 mt-1">
+                                  <MapPin className="h-3 w-3" />
+                                  {shop.shop_address}
+                                </CardDescription>
+                              </div>
                               <div className="flex items-center gap-1">
-                                <Star className="h-4 w-4 text-warning fill-warning" />
-                                <span>{shop.rating_avg}</span>
+                                {shop.distance_km != null && (
+                                  <Badge variant="outline">
+                                    {shop.distance_km.toFixed(1)} km
+                                  </Badge>
+                                )}
+                                <FavoriteButton isFavorite={isFavorite(shop.id)} onToggle={() => toggleFavorite(shop.id)} />
                               </div>
-                              <span className="text-muted-foreground">({shop.total_reviews} reviews)</span>
                             </div>
-                          )}
-
-                          <Button 
-                            onClick={() => joinQueue(shop.id, "Haircut", 25)} 
-                            className="w-full"
-                          >
-                            Join Queue
-                          </Button>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="space-y-3">
+                              <div className="flex items-center justify-between text-sm">
+                                <div className="flex items-center gap-2">
+                                  <Clock className="h-4 w-4 text-muted-foreground" />
+                                  <span>{waitTime > 0 ? `~${waitTime} min wait` : "No wait"}</span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="secondary" className="text-xs">
+                                    {waitingCount} in queue
+                                    {inProgressCount > 0 && ` • ${inProgressCount} in chair`}
+                                  </Badge>
+                                </div>
+                              </div>
+                              
+                              <OpenStatusBadge workingHours={shop.working_hours} />
+
+                              {shop.rating_avg > 0 && (
+                                <div className="flex items-center gap-2 text-sm">
+                                  <div className="flex items-center gap-1">
+                                    <Star className="h-4 w-4 text-warning fill-warning" />
+                                    <span>{shop.rating_avg}</span>
+                                  </div>
+                                  <span className="text-muted-foreground">({shop.total_reviews} reviews)</span>
+                                </div>
+                              )}
+
+                              <Button 
+                                onClick={() => startBooking(shop)} 
+                                className="w-full"
+                              >
+                                Join Queue
+                              </Button>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                )}
+                {nearbyLoading && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground mx-auto mt-6" />}
+                {hasMoreNearby && !nearbyLoading && (
+                  <Button variant="outline" className="w-full mt-6" onClick={loadMoreNearby}>
+                    Show More Shops
+                  </Button>
+                )}
               </div>
             </div>
           </TabsContent>
@@ -401,7 +541,14 @@ const CustomerDashboard = () => {
           <TabsContent value="bookings" className="mt-6">
             <div className="space-y-4">
               <h2 className="text-2xl font-bold">My Bookings</h2>
-              {myBookings.length === 0 ? (
+              {activeBookings.length > 0 && (
+                <div className="space-y-4">
+                  {activeBookings.map((booking) => (
+                    <ActiveBookingCard key={booking.id} booking={booking} />
+                  ))}
+                </div>
+              )}
+              {pastBookings.length === 0 && activeBookings.length === 0 ? (
                 <Card className="p-8 text-center shadow-soft bg-gradient-card border-0">
                   <CardContent className="p-0">
                     <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -414,7 +561,7 @@ const CustomerDashboard = () => {
                 </Card>
               ) : (
                 <div className="space-y-4">
-                  {myBookings.map((booking) => (
+                  {pastBookings.map((booking) => (
                     <Card key={booking.id} className="shadow-soft bg-gradient-card border-0">
                       <CardContent className="p-6">
                         <div className="flex items-start justify-between">
@@ -431,9 +578,19 @@ const CustomerDashboard = () => {
                             </p>
                             <div className="flex items-center gap-4 text-sm">
                               <span className="font-medium">{booking.service_name}</span>
-                              <span className="text-muted-foreground">•</span>
-                              <span className="font-medium">${booking.service_price}</span>
+                              {booking.service_price != null && (
+                                <>
+                                  <span className="text-muted-foreground">•</span>
+                                  <span className="font-medium">${booking.service_price}</span>
+                                </>
+                              )}
                             </div>
+                            {booking.status === 'cancelled' && booking.cancellation_reason && (
+                              <p className="text-sm text-muted-foreground">
+                                Reason: {booking.cancellation_reason}
+                              </p>
+                            )}
+                            {booking.status === 'completed' && renderReview(booking)}
                             {booking.queue_position && booking.status === 'waiting' && (
                               <div className="flex items-center gap-2 text-sm">
                                 <Clock className="h-4 w-4 text-warning" />
@@ -459,17 +616,98 @@ const CustomerDashboard = () => {
           <TabsContent value="favorites" className="mt-6">
             <div className="space-y-4">
               <h2 className="text-2xl font-bold">Favorite Shops</h2>
-              <Card className="p-8 text-center shadow-soft bg-gradient-card border-0">
-                <CardContent className="p-0">
-                  <Heart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                  <h3 className="text-lg font-semibold mb-2">No favorites yet</h3>
-                  <p className="text-muted-foreground">Save your favorite shops for quick booking!</p>
-                </CardContent>
-              </Card>
+              {favoriteShops.length === 0 ? (
+                <Card className="p-8 text-center shadow-soft bg-gradient-card border-0">
+                  <CardContent className="p-0">
+                    <Heart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">No favorites yet</h3>
+                    <p className="text-muted-foreground">Tap the heart on a shop to save it for quick booking!</p>
+                    <Button onClick={() => setActiveTab("nearby")} className="mt-4">
+                      Find Shops
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {favoriteShops.map((shop) => {
+                    const summary = queueSummaries[shop.id];
+                    const waitingCount = summary?.waiting_count ?? 0;
+                    const waitTime = summary?.estimated_wait_time ?? 0;
+                    const lastService = lastServiceAt(shop);
+
+                    return (
+                      <Card key={shop.id} className={`shadow-medium bg-gradient-card border-0 hover:shadow-strong transition-all duration-300 ${shop.is_active ? "" : "opacity-60"}`}>
+                        <CardHeader>
+                          <div className="flex items-start justify-between">
+                            <div>
+                              <CardTitle className="text-lg">
+                                {shop.is_active ? (
+                                  <Link to={`/shops/${shop.id}`} className="hover:underline">{shop.shop_name}</Link>
+                                ) : (
+                                  shop.shop_name
+                                )}
+                              </CardTitle>
+                              <CardDescription className="flex items-center gap-1 mt-1">
+                                <MapPin className="h-3 w-3" />
+                                {shop.shop_address}
+                              </CardDescription>
+                            </div>
+                            <FavoriteButton isFavorite={isFavorite(shop.id)} onToggle={() => toggleFavorite(shop.id)} />
+                          </div>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="space-y-3">
+                            <div className="flex items-center justify-between text-sm">
+                              <div className="flex items-center gap-2">
+                                <Clock className="h-4 w-4 text-muted-foreground" />
+                                <span>{waitTime > 0 ? `~${waitTime} min wait` : "No wait"}</span>
+                              </div>
+                              <Badge variant="secondary" className="text-xs">
+                                {waitingCount} in queue
+                              </Badge>
+                            </div>
+
+                            {shop.is_active ? (
+                              <OpenStatusBadge workingHours={shop.working_hours} />
+                            ) : (
+                              <Badge variant="outline" className="text-muted-foreground">
+                                Shop unavailable
+                              </Badge>
+                            )}
+
+                            <Button onClick={() => joinAgain(shop)} className="w-full" disabled={!shop.is_active}>
+                              {lastService ? `Join again · ${lastService.name}` : "Join Queue"}
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           </TabsContent>
         </Tabs>
       </div>
+
+      <ServicePickerDialog
+        open={!!bookingShop}
+        onOpenChange={(open) => !open && setBookingShop(null)}
+        shopName={bookingShop?.shop_name ?? ""}
+        services={activeServices(bookingShop?.services)}
+        onConfirm={(service) => handleJoinQueue(bookingShop!.id, service.id)}
+      />
+
+      {reviewingBooking && (
+        <ReviewDialog
+          open={!!reviewingBooking}
+          onOpenChange={(open) => !open && setReviewingBooking(null)}
+          bookingId={reviewingBooking.id}
+          shopName={reviewingBooking.shop.shop_name}
+          review={myReviews[reviewingBooking.id]}
+          onSaved={handleReviewSaved}
+        />
+      )}
     </div>
   );
 };
@@ -10,13 +10,12 @@ const Index = () => {
   const [selectedRole, setSelectedRole] = useState<string | null>(null);
 
   const handleRoleSelection = (role: 'customer' | 'barber') => {
-    localStorage.setItem('selected_role', role);
     setSelectedRole(role);
-    navigate('/auth');
+    // Only tailors the sign-in copy; the actual role comes from the profile
+    navigate(`/auth?as=${role}`);
   };
 
   const handleBarberRegistration = () => {
-    localStorage.setItem('selected_role', 'barber');
     navigate('/barber-registration');
   };
 
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { KeyRound, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AccountError, newPasswordSchema, updatePassword, type NewPasswordValues } from "@/lib/account";
+import { ROLE_HOME } from "@/lib/roles";
+
+// Failed recovery links land here with the reason in the hash, e.g. #error_code=otp_expired
+const readLinkError = () => {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get('error_description');
+};
+
+/**
+ * Landing page for password recovery emails. supabase-js exchanges the token in
+ * the URL for a session, after which the user picks a new password.
+ */
+const ResetPassword = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, role, loading } = useAuth();
+  const [linkError] = useState(readLinkError);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<NewPasswordValues>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const handleSubmit = async ({ password }: NewPasswordValues) => {
+    setSaving(true);
+
+    try {
+      await updatePassword(password);
+
+      toast({
+        title: "Password updated",
+        description: "Your new password is ready to use.",
+      });
+      navigate(role ? ROLE_HOME[role] : '/', { replace: true });
+    } catch (error) {
+      const { title, description } = error instanceof AccountError
+        ? error
+        : new AccountError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return <Loader2 className="h-6 w-6 animate-spin text-muted-foreground mx-auto" />;
+    }
+
+    if (linkError || !user) {
+      const { description } = new AccountError("session_expired");
+
+      return (
+        <div className="space-y-4 text-center">
+          <p className="text-sm text-muted-foreground">{linkError || description}</p>
+          <Button className="w-full" onClick={() => navigate('/auth')}>
+            Request a New Link
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>New Password</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirm Password</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={saving} variant="hero">
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update Password
+          </Button>
+        </form>
+      </Form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10 flex items-center justify-center p-6">
+      <Card className="w-full max-w-md shadow-medium bg-gradient-card border-0">
+        <CardHeader className="text-center">
+          <div className="p-4 bg-gradient-primary rounded-2xl w-fit mx-auto mb-4">
+            <KeyRound className="h-8 w-8 text-primary-foreground" />
+          </div>
+          <CardTitle className="text-2xl">Reset your password</CardTitle>
+          <CardDescription>
+            {user?.email ? `Choose a new password for ${user.email}` : "Choose a new password for your account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,337 @@
+import { useEffect, useMemo, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AspectRatio } from "@/components/ui/aspect-ratio";
+import { ArrowLeft, Clock, MapPin, Navigation, Scissors, Share2, Star, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useShopQueueSummaries } from "@/hooks/use-shop-queue-summaries";
+import { joinQueue, JoinQueueError } from "@/lib/queue";
+import { activeServices, SERVICE_CATEGORIES } from "@/lib/services";
+import { parseWorkingHours, WEEKDAYS } from "@/lib/working-hours";
+import { ROLE_HOME } from "@/lib/roles";
+import OpenStatusBadge from "@/components/OpenStatusBadge";
+import ServicePickerDialog from "@/components/ServicePickerDialog";
+import ShopReviews from "@/components/ShopReviews";
+import type { Tables } from "@/integrations/supabase/types";
+
+type BarberShop = Tables<"barber_shops">;
+
+const mapEmbedUrl = (lat: number, lng: number) =>
+  `https://www.openstreetmap.org/export/embed.html?bbox=${lng - 0.005},${lat - 0.003},${lng + 0.005},${lat + 0.003}&layer=mapnik&marker=${lat},${lng}`;
+
+const directionsUrl = (shop: BarberShop) =>
+  `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(
+    shop.latitude != null && shop.longitude != null ? `${shop.latitude},${shop.longitude}` : shop.shop_address
+  )}`;
+
+/** Public page for a single shop, shareable by URL and viewable while signed out. */
+const ShopDetails = () => {
+  const { shopId } = useParams<{ shopId: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const { user, role } = useAuth();
+  const [shop, setShop] = useState<BarberShop | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pickingService, setPickingService] = useState(false);
+  const { summaries: queueSummaries } = useShopQueueSummaries(shopId ? [shopId] : []);
+
+  useEffect(() => {
+    const fetchShop = async () => {
+      setLoading(true);
+
+      try {
+        const { data, error } = await supabase
+          .from('barber_shops')
+          .select('*')
+          .eq('id', shopId)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        setShop(data);
+      } catch (error) {
+        console.error("Error fetching shop:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (shopId) fetchShop();
+  }, [shopId]);
+
+  const services = useMemo(() => activeServices(shop?.services), [shop?.services]);
+  const workingHours = useMemo(() => parseWorkingHours(shop?.working_hours), [shop?.working_hours]);
+
+  const summary = shop ? queueSummaries[shop.id] : undefined;
+  const waitingCount = summary?.waiting_count ?? 0;
+  const inProgressCount = summary?.in_progress_count ?? 0;
+  const waitTime = summary?.estimated_wait_time ?? 0;
+
+  const handleJoinQueue = async (serviceId?: string) => {
+    if (!shop) return;
+
+    try {
+      await joinQueue(shop.id, serviceId);
+
+      toast({
+        title: "Booking Confirmed!",
+        description: "You've been added to the queue. We'll notify you when it's your turn.",
+      });
+      navigate('/customer-dashboard');
+    } catch (error) {
+      const { title, description } = error instanceof JoinQueueError
+        ? error
+        : new JoinQueueError("unknown");
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startBooking = () => {
+    if (!user) {
+      // Auth sends the visitor back here once they're signed in
+      navigate('/auth', { state: { from: location.pathname } });
+      return;
+    }
+
+    if (services.length === 0) {
+      handleJoinQueue();
+    } else {
+      setPickingService(true);
+    }
+  };
+
+  const handleShare = async () => {
+    const url = window.location.href;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: shop?.shop_name, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        toast({
+          title: "Link copied",
+          description: "Share it with anyone to show them this shop.",
+        });
+      }
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError
+      if (error instanceof Error && error.name !== 'AbortError') {
+        console.error("Error sharing shop:", error);
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10 flex items-center justify-center">
+        <div className="text-center">
+          <div className="p-4 bg-gradient-primary rounded-2xl w-fit mx-auto mb-4 animate-pulse">
+            <Scissors className="h-8 w-8 text-primary-foreground" />
+          </div>
+          <p className="text-muted-foreground">Loading shop...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!shop) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10 flex items-center justify-center p-6">
+        <Card className="p-8 text-center shadow-soft bg-gradient-card border-0 max-w-md">
+          <CardContent className="p-0">
+            <Scissors className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Shop not found</h3>
+            <p className="text-muted-foreground">This shop doesn't exist or isn't taking customers right now.</p>
+            <Button onClick={() => navigate('/')} className="mt-4">
+              Back to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-muted/30 to-secondary/10">
+      {/* Header */}
+      <header className="p-6 border-b bg-card/50 backdrop-blur-sm">
+        <div className="max-w-5xl mx-auto flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate(role ? ROLE_HOME[role] : '/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {user ? "Back to Dashboard" : "Back to Home"}
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-primary rounded-xl">
+              <Scissors className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <span className="text-xl font-bold">TrimTime</span>
+          </div>
+        </div>
+      </header>
+
+      <div className="p-6 max-w-5xl mx-auto space-y-6">
+        {shop.cover_image_url && (
+          <div className="overflow-hidden rounded-xl shadow-medium">
+            <AspectRatio ratio={3 / 1}>
+              <img src={shop.cover_image_url} alt={shop.shop_name} className="h-full w-full object-cover" />
+            </AspectRatio>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold">{shop.shop_name}</h1>
+            <p className="text-muted-foreground flex items-center gap-1">
+              <MapPin className="h-4 w-4" />
+              {shop.shop_address}
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              {(shop.rating_avg ?? 0) > 0 && (
+                <Badge variant="secondary" className="bg-warning/10 text-warning border-warning/20">
+                  <Star className="h-3 w-3 mr-1" />
+                  {Number(shop.rating_avg).toFixed(1)} · {shop.total_reviews} reviews
+                </Badge>
+              )}
+              <OpenStatusBadge workingHours={shop.working_hours} />
+            </div>
+          </div>
+          <Button variant="outline" onClick={handleShare}>
+            <Share2 className="h-4 w-4 mr-2" />
+            Share
+          </Button>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card className="shadow-soft bg-gradient-card border-0 md:col-span-2">
+            <CardContent className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="flex items-center gap-6">
+                <div className="flex items-center gap-2">
+                  <Users className="h-5 w-5 text-primary" />
+                  <span className="font-medium">{waitingCount} in queue</span>
+                  {inProgressCount > 0 && <span className="text-muted-foreground">• {inProgressCount} in chair</span>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Clock className="h-5 w-5 text-muted-foreground" />
+                  <span>{waitTime > 0 ? `~${waitTime} min wait` : "No wait"}</span>
+                </div>
+              </div>
+              {(!user || role === 'customer') && (
+                <Button variant="hero" onClick={startBooking}>
+                  {user ? "Join Queue" : "Sign In to Join Queue"}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-soft bg-gradient-card border-0">
+            <CardHeader>
+              <CardTitle>Services</CardTitle>
+              <CardDescription>Prices and typical durations</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {services.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This shop hasn't listed its services yet.</p>
+              ) : (
+                SERVICE_CATEGORIES.filter((category) => services.some((s) => s.category === category)).map((category) => (
+                  <div key={category}>
+                    <p className="text-sm font-medium text-muted-foreground mb-2">{category}</p>
+                    <div className="space-y-2">
+                      {services.filter((s) => s.category === category).map((service) => (
+                        <div key={service.id} className="flex items-center justify-between text-sm">
+                          <span>{service.name}</span>
+                          <span className="text-muted-foreground">
+                            {service.duration} min · <span className="font-medium text-foreground">${service.price}</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-soft bg-gradient-card border-0">
+            <CardHeader>
+              <CardTitle>Working Hours</CardTitle>
+              {workingHours && <CardDescription>Times in {workingHours.timezone}</CardDescription>}
+            </CardHeader>
+            <CardContent>
+              {workingHours ? (
+                <div className="space-y-1 text-sm">
+                  {WEEKDAYS.map((day) => {
+                    const { ranges } = workingHours.days[day];
+
+                    return (
+                      <div key={day} className="flex items-center justify-between">
+                        <span className="capitalize">{day}</span>
+                        <span className={ranges.length === 0 ? "text-muted-foreground" : ""}>
+                          {ranges.map((r) => `${r.open}–${r.close}`).join(", ") || "Closed"}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">This shop hasn't set its hours yet.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-soft bg-gradient-card border-0 md:col-span-2">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Location</CardTitle>
+                <CardDescription>{shop.shop_address}</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <a href={directionsUrl(shop)} target="_blank" rel="noopener noreferrer">
+                  <Navigation className="h-4 w-4 mr-2" />
+                  Directions
+                </a>
+              </Button>
+            </CardHeader>
+            {shop.latitude != null && shop.longitude != null && (
+              <CardContent>
+                <div className="overflow-hidden rounded-lg">
+                  <AspectRatio ratio={16 / 7}>
+                    <iframe
+                      title={`Map of ${shop.shop_name}`}
+                      src={mapEmbedUrl(shop.latitude, shop.longitude)}
+                      className="h-full w-full border-0"
+                      loading="lazy"
+                    />
+                  </AspectRatio>
+                </div>
+              </CardContent>
+            )}
+          </Card>
+
+          <div className="md:col-span-2">
+            <ShopReviews shopId={shop.id} ratingAvg={shop.rating_avg} totalReviews={shop.total_reviews} />
+          </div>
+        </div>
+      </div>
+
+      <ServicePickerDialog
+        open={pickingService}
+        onOpenChange={setPickingService}
+        shopName={shop.shop_name}
+        services={services}
+        onConfirm={(service) => handleJoinQueue(service.id)}
+      />
+    </div>
+  );
+};
+
+export default ShopDetails;
@@ -0,0 +1,76 @@
+// Address → coordinates lookup shared by the edge functions.
+//
+// GEOCODER_PROVIDER picks the implementation:
+//   nominatim (default)  OpenStreetMap Nominatim, or any compatible server at
+//                        GEOCODER_URL. Public Nominatim allows 1 request/s.
+//   stub                 No network. Returns a stable point within a few km of
+//                        GEOCODER_STUB_ORIGIN ("lat,lng") derived from the
+//                        address, for local development and tests.
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Geocoder {
+  /** Resolves null when the provider has no match for the address. */
+  geocode(address: string): Promise<Coordinates | null>;
+  /** Minimum pause between requests when geocoding in bulk. */
+  minIntervalMs: number;
+}
+
+const nominatimGeocoder = (baseUrl: string): Geocoder => ({
+  minIntervalMs: 1100,
+  async geocode(address) {
+    const url = new URL("/search", baseUrl);
+    url.searchParams.set("q", address);
+    url.searchParams.set("format", "jsonv2");
+    url.searchParams.set("limit", "1");
+
+    const response = await fetch(url, {
+      // Nominatim's usage policy requires an identifying user agent
+      headers: { "User-Agent": "TrimTime/1.0 (shop geocoding)" },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Geocoder responded ${response.status}`);
+    }
+
+    const [match] = await response.json();
+    return match ? { latitude: Number(match.lat), longitude: Number(match.lon) } : null;
+  },
+});
+
+const stubGeocoder = (origin: string): Geocoder => {
+  const [originLat, originLng] = origin.split(",").map(Number);
+
+  return {
+    minIntervalMs: 0,
+    async geocode(address) {
+      const normalized = address.trim().toLowerCase();
+      if (!normalized) return null;
+
+      // FNV-1a, so the same address always lands on the same point
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < normalized.length; i++) {
+        hash ^= normalized.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+      }
+
+      // Up to ~0.05° (about 5 km) in each direction
+      const offset = (bits: number) => ((bits & 0xffff) / 0xffff - 0.5) * 0.1;
+      return {
+        latitude: Number((originLat + offset(hash)).toFixed(6)),
+        longitude: Number((originLng + offset(hash >>> 16)).toFixed(6)),
+      };
+    },
+  };
+};
+
+export function createGeocoder(): Geocoder {
+  if (Deno.env.get("GEOCODER_PROVIDER") === "stub") {
+    return stubGeocoder(Deno.env.get("GEOCODER_STUB_ORIGIN") ?? "40.7128,-74.0060");
+  }
+
+  return nominatimGeocoder(Deno.env.get("GEOCODER_URL") ?? "https://nominatim.openstreetmap.org");
+}
@@ -0,0 +1,110 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createGeocoder } from "../_shared/geocoder.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const respond = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Approves a barber registration request: invites the applicant by email, then
+// creates their barber profile and shop via provision_barber_from_request.
+// The shop is then placed on the map from its address; if that fails the
+// barber can drop a pin in Shop Settings, so approval still succeeds.
+// Errors are returned as { error: reason } for the client to map to a message.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  // Act as the caller to check they are an admin
+  const caller = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { data: { user } } = await caller.auth.getUser();
+  if (!user) {
+    return respond(401, { error: "not_authenticated" });
+  }
+
+  const { data: isAdmin } = await caller.rpc("is_admin");
+  if (!isAdmin) {
+    return respond(403, { error: "not_admin" });
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return respond(400, { error: "invalid_request" });
+  }
+
+  const { request_id, notes, services, working_hours } = body ?? {};
+
+  const { data: request } = await admin
+    .from("barber_registration_requests")
+    .select("*")
+    .eq("id", request_id)
+    .maybeSingle();
+
+  if (!request) {
+    return respond(404, { error: "request_not_found" });
+  }
+
+  if (request.status !== "pending") {
+    return respond(409, { error: "request_not_pending" });
+  }
+
+  if (!request.email) {
+    return respond(422, { error: "email_required" });
+  }
+
+  const { data: invite, error: inviteError } = await admin.auth.admin.inviteUserByEmail(request.email, {
+    data: { name: request.name, phone: request.phone, role: "barber" },
+    redirectTo: `${req.headers.get("origin") ?? ""}/barber-dashboard`,
+  });
+
+  if (inviteError || !invite.user) {
+    console.error("Error inviting barber:", inviteError);
+    const alreadyRegistered = inviteError?.message.toLowerCase().includes("already");
+    return respond(alreadyRegistered ? 409 : 500, { error: alreadyRegistered ? "email_in_use" : "unknown" });
+  }
+
+  const { data: shopId, error: provisionError } = await admin.rpc("provision_barber_from_request", {
+    request_uuid: request_id,
+    barber_uuid: invite.user.id,
+    reviewer_uuid: user.id,
+    shop_services: Array.isArray(services) ? services : [],
+    shop_working_hours: working_hours ?? {},
+    notes: notes ?? null,
+  });
+
+  if (provisionError) {
+    console.error("Error provisioning barber:", provisionError);
+    // Don't leave an invited account without a shop behind
+    await admin.auth.admin.deleteUser(invite.user.id);
+    const reason = ["request_not_found", "request_not_pending"].includes(provisionError.message)
+      ? provisionError.message
+      : "unknown";
+    return respond(reason === "unknown" ? 500 : 409, { error: reason });
+  }
+
+  try {
+    const coordinates = await createGeocoder().geocode(request.shop_address);
+    if (coordinates) {
+      await admin.from("barber_shops").update(coordinates).eq("id", shopId);
+    }
+  } catch (geocodeError) {
+    console.error("Error geocoding new shop:", geocodeError);
+  }
+
+  return respond(200, { shop_id: shopId });
+});
@@ -0,0 +1,145 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createGeocoder } from "../_shared/geocoder.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const respond = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const DEFAULT_BACKFILL_BATCH = 25;
+const MAX_BACKFILL_BATCH = 100;
+
+// Sets a shop's latitude/longitude from its address.
+//   { shop_id }            the shop's owner or an admin geocodes one shop and
+//                          gets back { latitude, longitude }.
+//   { backfill, limit? }   admins geocode up to `limit` shops that have no
+//                          coordinates yet and get back { located, failed, remaining,
+//                          unresolved }. Addresses that aren't found are marked with
+//                          geocode_failed_at and skipped by later batches; they count
+//                          as unresolved until the barber fixes the address or drops a pin.
+// Errors are returned as { error: reason } for the client to map to a message.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const caller = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { data: { user } } = await caller.auth.getUser();
+  if (!user) {
+    return respond(401, { error: "not_authenticated" });
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return respond(400, { error: "invalid_request" });
+  }
+
+  const { data: isAdmin } = await caller.rpc("is_admin");
+  const { shop_id, backfill, limit } = body ?? {};
+  const geocoder = createGeocoder();
+
+  if (backfill) {
+    if (!isAdmin) {
+      return respond(403, { error: "not_admin" });
+    }
+
+    const batch = Math.min(Math.max(Number(limit) || DEFAULT_BACKFILL_BATCH, 1), MAX_BACKFILL_BATCH);
+    const { data: shops, error } = await admin
+      .from("barber_shops")
+      .select("id, shop_address")
+      .or("latitude.is.null,longitude.is.null")
+      .is("geocode_failed_at", null)
+      .order("created_at")
+      .limit(batch);
+
+    if (error) {
+      console.error("Error loading shops to geocode:", error);
+      return respond(500, { error: "unknown" });
+    }
+
+    let located = 0;
+    let failed = 0;
+
+    for (const [index, shop] of shops.entries()) {
+      if (index > 0) await sleep(geocoder.minIntervalMs);
+
+      try {
+        const coordinates = await geocoder.geocode(shop.shop_address);
+        if (!coordinates) {
+          await admin.from("barber_shops").update({ geocode_failed_at: new Date().toISOString() }).eq("id", shop.id);
+          failed++;
+          continue;
+        }
+
+        const { error: updateError } = await admin.from("barber_shops").update(coordinates).eq("id", shop.id);
+        if (updateError) throw updateError;
+        located++;
+      } catch (geocodeError) {
+        // Likely the provider being unavailable; leave the shop for the next batch
+        console.error(`Error geocoding shop ${shop.id}:`, geocodeError);
+        failed++;
+      }
+    }
+
+    const [{ count: remaining }, { count: unresolved }] = await Promise.all([
+      admin
+        .from("barber_shops")
+        .select("id", { count: "exact", head: true })
+        .or("latitude.is.null,longitude.is.null")
+        .is("geocode_failed_at", null),
+      admin
+        .from("barber_shops")
+        .select("id", { count: "exact", head: true })
+        .or("latitude.is.null,longitude.is.null")
+        .not("geocode_failed_at", "is", null),
+    ]);
+
+    return respond(200, { located, failed, remaining: remaining ?? 0, unresolved: unresolved ?? 0 });
+  }
+
+  const { data: shop } = await admin
+    .from("barber_shops")
+    .select("id, user_id, shop_address")
+    .eq("id", shop_id)
+    .maybeSingle();
+
+  if (!shop || (shop.user_id !== user.id && !isAdmin)) {
+    return respond(404, { error: "shop_not_found" });
+  }
+
+  let coordinates;
+  try {
+    coordinates = await geocoder.geocode(shop.shop_address);
+  } catch (geocodeError) {
+    console.error("Error geocoding shop:", geocodeError);
+    return respond(502, { error: "geocoder_failed" });
+  }
+
+  if (!coordinates) {
+    return respond(422, { error: "address_not_found" });
+  }
+
+  const { error: updateError } = await admin.from("barber_shops").update(coordinates).eq("id", shop.id);
+  if (updateError) {
+    console.error("Error saving shop location:", updateError);
+    return respond(500, { error: "unknown" });
+  }
+
+  return respond(200, coordinates);
+});
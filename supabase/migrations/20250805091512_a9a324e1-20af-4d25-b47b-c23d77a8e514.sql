@@ -0,0 +1,101 @@
+-- Per-shop live queue summary shown on customer shop cards.
+-- Customers cannot read other users' bookings, so the counts are maintained
+-- server-side in a publicly readable table that realtime can broadcast.
+CREATE TABLE public.shop_queue_summary (
+  shop_id UUID PRIMARY KEY REFERENCES public.barber_shops(id) ON DELETE CASCADE,
+  waiting_count INTEGER NOT NULL DEFAULT 0,
+  in_progress_count INTEGER NOT NULL DEFAULT 0,
+  estimated_wait_time INTEGER NOT NULL DEFAULT 0, -- in minutes, for a customer joining now
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.shop_queue_summary ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view shop queue summaries" ON public.shop_queue_summary FOR SELECT USING (true);
+
+-- Recompute the summary row for a single shop
+CREATE OR REPLACE FUNCTION public.refresh_shop_queue_summary(shop_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  waiting INTEGER;
+  in_progress INTEGER;
+  avg_duration INTEGER;
+BEGIN
+  SELECT COALESCE(avg_service_duration, 30) INTO avg_duration FROM public.barber_shops WHERE id = shop_uuid;
+
+  -- Shop was deleted (e.g. cascading booking deletes); nothing to summarise
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'waiting'),
+    COUNT(*) FILTER (WHERE status = 'in_progress')
+  INTO waiting, in_progress
+  FROM public.bookings
+  WHERE shop_id = shop_uuid;
+
+  INSERT INTO public.shop_queue_summary (shop_id, waiting_count, in_progress_count, estimated_wait_time, updated_at)
+  VALUES (shop_uuid, waiting, in_progress, waiting * avg_duration, now())
+  ON CONFLICT (shop_id) DO UPDATE SET
+    waiting_count = EXCLUDED.waiting_count,
+    in_progress_count = EXCLUDED.in_progress_count,
+    estimated_wait_time = EXCLUDED.estimated_wait_time,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+-- Keep summaries in sync with booking changes
+CREATE OR REPLACE FUNCTION public.handle_booking_queue_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_shop_queue_summary(OLD.shop_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_shop_queue_summary(NEW.shop_id);
+
+  IF TG_OP = 'UPDATE' AND OLD.shop_id <> NEW.shop_id THEN
+    PERFORM public.refresh_shop_queue_summary(OLD.shop_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_shop_queue_summary_on_booking
+  AFTER INSERT OR UPDATE OF status, shop_id OR DELETE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_booking_queue_change();
+
+-- New shops and duration changes also affect the projected wait
+CREATE OR REPLACE FUNCTION public.handle_shop_queue_settings_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.refresh_shop_queue_summary(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_shop_queue_summary_on_shop
+  AFTER INSERT OR UPDATE OF avg_service_duration ON public.barber_shops
+  FOR EACH ROW EXECUTE FUNCTION public.handle_shop_queue_settings_change();
+
+-- Backfill summaries for existing shops
+SELECT public.refresh_shop_queue_summary(id) FROM public.barber_shops;
+
+-- Enable realtime for live shop cards
+ALTER TABLE public.shop_queue_summary REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.shop_queue_summary;
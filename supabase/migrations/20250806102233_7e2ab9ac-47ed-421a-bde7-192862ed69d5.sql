@@ -0,0 +1,128 @@
+-- Server-side queue joining.
+-- join_queue validates the shop, its opening hours, the queue limit and the
+-- caller's existing bookings while holding a lock on the shop row, so
+-- concurrent joins cannot overshoot max_queue_limit.
+
+-- Whether a shop accepts customers at the given time.
+-- working_hours is keyed by lowercase day name, e.g. {"monday": {"open": "09:00", "close": "18:00"}};
+-- a missing day means closed, and an empty object means hours were never configured.
+-- Days and times are read in the shop's local time: an optional "timezone" key
+-- holds an IANA zone such as "Asia/Kolkata", and shops without one are taken to be on UTC.
+CREATE OR REPLACE FUNCTION public.is_shop_open(shop_uuid UUID, at_time TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  shop_record RECORD;
+  day_hours JSONB;
+  local_at TIMESTAMP;
+  local_time TIME;
+BEGIN
+  SELECT is_active, working_hours INTO shop_record FROM public.barber_shops WHERE id = shop_uuid;
+
+  IF NOT FOUND OR NOT COALESCE(shop_record.is_active, false) THEN
+    RETURN false;
+  END IF;
+
+  IF shop_record.working_hours IS NULL OR shop_record.working_hours = '{}'::jsonb THEN
+    RETURN true;
+  END IF;
+
+  local_at := at_time AT TIME ZONE COALESCE(NULLIF(shop_record.working_hours ->> 'timezone', ''), 'UTC');
+  day_hours := shop_record.working_hours -> trim(lower(to_char(local_at, 'day')));
+  IF day_hours IS NULL OR day_hours = 'null'::jsonb THEN
+    RETURN false;
+  END IF;
+
+  local_time := local_at::time;
+  RETURN local_time >= (day_hours ->> 'open')::time AND local_time < (day_hours ->> 'close')::time;
+END;
+$$;
+
+-- Join a shop's queue as the signed-in user.
+-- Raises one of: not_authenticated, shop_not_found, shop_inactive, shop_closed,
+-- queue_full, already_in_queue, service_not_found (mapped to JoinQueueError in the app).
+CREATE OR REPLACE FUNCTION public.join_queue(shop_uuid UUID, service_id TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  shop_record RECORD;
+  service JSONB;
+  active_count INTEGER;
+  new_booking public.bookings;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the shop so concurrent joins are serialised
+  SELECT * INTO shop_record FROM public.barber_shops WHERE id = shop_uuid FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'shop_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NOT COALESCE(shop_record.is_active, false) THEN
+    RAISE EXCEPTION 'shop_inactive' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NOT public.is_shop_open(shop_uuid) THEN
+    RAISE EXCEPTION 'shop_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE shop_id = shop_uuid AND user_id = caller AND status IN ('waiting', 'in_progress')
+  ) THEN
+    RAISE EXCEPTION 'already_in_queue' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COUNT(*) INTO active_count
+  FROM public.bookings
+  WHERE shop_id = shop_uuid AND status = 'waiting';
+
+  IF active_count >= COALESCE(shop_record.max_queue_limit, 10) THEN
+    RAISE EXCEPTION 'queue_full' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF service_id IS NOT NULL THEN
+    SELECT s INTO service
+    FROM jsonb_array_elements(COALESCE(shop_record.services, '[]'::jsonb)) AS s
+    WHERE s ->> 'id' = service_id;
+
+    IF service IS NULL THEN
+      RAISE EXCEPTION 'service_not_found' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, shop_id, service_name, service_price, status)
+  VALUES (
+    caller,
+    shop_uuid,
+    COALESCE(service ->> 'name', 'Haircut'),
+    (service ->> 'price')::numeric,
+    'waiting'
+  )
+  RETURNING * INTO new_booking;
+
+  PERFORM public.update_queue_positions(shop_uuid);
+
+  SELECT * INTO new_booking FROM public.bookings WHERE id = new_booking.id;
+  RETURN new_booking;
+END;
+$$;
+
+-- Customers must go through join_queue; direct inserts remain only for
+-- barbers adding walk-ins to their own shop.
+DROP POLICY IF EXISTS "Users can create bookings" ON public.bookings;
+CREATE POLICY "Barbers can create bookings for their shop" ON public.bookings FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (SELECT 1 FROM public.barber_shops WHERE barber_shops.user_id = auth.uid() AND barber_shops.id = bookings.shop_id)
+);
@@ -0,0 +1,53 @@
+-- Customer self-cancel ("leave queue") support
+
+ALTER TABLE public.bookings
+  ADD COLUMN cancellation_reason TEXT,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Cancel one of the caller's own waiting bookings and re-sequence the queue.
+-- Raises: not_authenticated, booking_not_found, booking_not_cancellable.
+CREATE OR REPLACE FUNCTION public.cancel_booking(booking_uuid UUID, reason TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  booking_record public.bookings;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO booking_record FROM public.bookings WHERE id = booking_uuid AND user_id = caller FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'booking_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF booking_record.status <> 'waiting' THEN
+    RAISE EXCEPTION 'booking_not_cancellable' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.bookings
+  SET
+    status = 'cancelled',
+    cancellation_reason = NULLIF(trim(reason), ''),
+    cancelled_at = now(),
+    cancelled_by = caller,
+    queue_position = NULL,
+    estimated_wait_time = NULL
+  WHERE id = booking_uuid
+  RETURNING * INTO booking_record;
+
+  PERFORM public.update_queue_positions(booking_record.shop_id);
+
+  RETURN booking_record;
+END;
+$$;
+
+-- Customers change their bookings only through cancel_booking, which checks the
+-- status; a direct UPDATE could rewrite any column or "cancel" a finished booking.
+DROP POLICY IF EXISTS "Users can update their own bookings" ON public.bookings;
@@ -0,0 +1,168 @@
+-- Typed service catalog on barber_shops.services.
+-- Each entry is {"id", "name", "price", "duration", "category", "active"};
+-- bookings now keep the duration of the booked service for wait estimates.
+
+-- Mirrors serviceSchema in src/lib/services.ts so the app and join_queue agree
+-- on which entries exist.
+CREATE OR REPLACE FUNCTION public.is_valid_service(service JSONB)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(service) <> 'object'
+      OR jsonb_typeof(service -> 'id') IS DISTINCT FROM 'string'
+      OR jsonb_typeof(service -> 'name') IS DISTINCT FROM 'string'
+      OR jsonb_typeof(service -> 'price') IS DISTINCT FROM 'number'
+      OR jsonb_typeof(service -> 'duration') IS DISTINCT FROM 'number'
+      OR jsonb_typeof(service -> 'active') IS DISTINCT FROM 'boolean'
+    THEN false
+    ELSE service ->> 'id' <> ''
+      AND length(trim(service ->> 'name')) BETWEEN 1 AND 60
+      AND (service ->> 'price')::numeric BETWEEN 0 AND 10000
+      AND (service ->> 'duration')::numeric BETWEEN 5 AND 480
+      AND (service ->> 'duration')::numeric = trunc((service ->> 'duration')::numeric)
+      AND service ->> 'category' IN ('Hair', 'Beard', 'Shave', 'Color', 'Styling', 'Other')
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_valid_service_catalog(services JSONB)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(services) <> 'array' THEN false
+    ELSE NOT EXISTS (SELECT 1 FROM jsonb_array_elements(services) AS s WHERE NOT public.is_valid_service(s))
+  END;
+$$;
+
+-- Bring pre-catalog entries (bare names or partial objects) up to the Service
+-- shape instead of letting the app silently hide them; entries without a name
+-- can't be booked or edited and are dropped.
+UPDATE public.barber_shops shop
+SET services = COALESCE((
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', COALESCE(NULLIF(item ->> 'id', ''), gen_random_uuid()::text),
+      'name', left(trim(item ->> 'name'), 60),
+      'price', CASE
+        WHEN item ->> 'price' ~ '^\d+(\.\d+)?$' THEN LEAST((item ->> 'price')::numeric, 10000)
+        ELSE 0
+      END,
+      'duration', CASE
+        WHEN item ->> 'duration' ~ '^\d+(\.\d+)?$' THEN LEAST(GREATEST(round((item ->> 'duration')::numeric), 5), 480)
+        ELSE LEAST(GREATEST(COALESCE(shop.avg_service_duration, 30), 5), 480)
+      END,
+      'category', CASE
+        WHEN item ->> 'category' IN ('Hair', 'Beard', 'Shave', 'Color', 'Styling', 'Other') THEN item ->> 'category'
+        ELSE 'Other'
+      END,
+      'active', CASE WHEN jsonb_typeof(item -> 'active') = 'boolean' THEN item -> 'active' ELSE 'true'::jsonb END
+    )
+    ORDER BY ordinality
+  )
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(shop.services) = 'array' THEN shop.services ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS element(value, ordinality)
+  CROSS JOIN LATERAL (
+    SELECT CASE jsonb_typeof(value)
+      WHEN 'string' THEN jsonb_build_object('name', value #>> '{}')
+      WHEN 'object' THEN value
+    END AS item
+  ) AS normalised
+  WHERE trim(COALESCE(item ->> 'name', '')) <> ''
+), '[]'::jsonb)
+WHERE shop.services IS NOT NULL AND NOT public.is_valid_service_catalog(shop.services);
+
+ALTER TABLE public.barber_shops
+  ADD CONSTRAINT barber_shops_services_valid CHECK (services IS NULL OR public.is_valid_service_catalog(services));
+
+ALTER TABLE public.bookings
+  ADD COLUMN service_duration INTEGER; -- in minutes
+
+-- Join a shop's queue as the signed-in user for one of its active services.
+-- Raises one of: not_authenticated, shop_not_found, shop_inactive, shop_closed,
+-- queue_full, already_in_queue, service_required, service_not_found.
+CREATE OR REPLACE FUNCTION public.join_queue(shop_uuid UUID, service_id TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  shop_record RECORD;
+  service JSONB;
+  active_count INTEGER;
+  new_booking public.bookings;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the shop so concurrent joins are serialised
+  SELECT * INTO shop_record FROM public.barber_shops WHERE id = shop_uuid FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'shop_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NOT COALESCE(shop_record.is_active, false) THEN
+    RAISE EXCEPTION 'shop_inactive' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NOT public.is_shop_open(shop_uuid) THEN
+    RAISE EXCEPTION 'shop_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE shop_id = shop_uuid AND user_id = caller AND status IN ('waiting', 'in_progress')
+  ) THEN
+    RAISE EXCEPTION 'already_in_queue' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COUNT(*) INTO active_count
+  FROM public.bookings
+  WHERE shop_id = shop_uuid AND status = 'waiting';
+
+  IF active_count >= COALESCE(shop_record.max_queue_limit, 10) THEN
+    RAISE EXCEPTION 'queue_full' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF service_id IS NOT NULL THEN
+    SELECT s INTO service
+    FROM jsonb_array_elements(COALESCE(shop_record.services, '[]'::jsonb)) AS s
+    WHERE s ->> 'id' = service_id AND public.is_valid_service(s) AND (s -> 'active') = 'true'::jsonb;
+
+    IF service IS NULL THEN
+      RAISE EXCEPTION 'service_not_found' USING ERRCODE = 'P0001';
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(shop_record.services, '[]'::jsonb)) AS s
+    WHERE public.is_valid_service(s) AND (s -> 'active') = 'true'::jsonb
+  ) THEN
+    -- Shops with a catalog must be booked for a specific service
+    RAISE EXCEPTION 'service_required' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, shop_id, service_name, service_price, service_duration, status)
+  VALUES (
+    caller,
+    shop_uuid,
+    COALESCE(service ->> 'name', 'Haircut'),
+    (service ->> 'price')::numeric,
+    COALESCE((service ->> 'duration')::integer, shop_record.avg_service_duration),
+    'waiting'
+  )
+  RETURNING * INTO new_booking;
+
+  PERFORM public.update_queue_positions(shop_uuid);
+
+  SELECT * INTO new_booking FROM public.bookings WHERE id = new_booking.id;
+  RETURN new_booking;
+END;
+$$;
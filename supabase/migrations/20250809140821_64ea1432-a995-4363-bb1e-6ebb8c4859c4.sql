@@ -0,0 +1,213 @@
+-- Structured weekly working hours.
+-- barber_shops.working_hours now has the shape
+--   {
+--     "timezone": "Europe/London",
+--     "days": {"monday": {"ranges": [{"open": "09:00", "close": "18:00"}], "breaks": [{"open": "13:00", "close": "13:30"}]}, ...},
+--     "exceptions": [{"date": "2025-12-25", "label": "Christmas", "ranges": []}]
+--   }
+-- An empty object still means the shop never configured its hours.
+
+-- Convert schedules written in the earlier {"monday": {"open", "close"}} shape
+UPDATE public.barber_shops
+SET working_hours = jsonb_build_object(
+  'timezone', 'UTC',
+  'days', (
+    SELECT jsonb_object_agg(
+      day,
+      CASE
+        WHEN working_hours -> day IS NULL OR working_hours -> day = 'null'::jsonb
+          THEN jsonb_build_object('ranges', '[]'::jsonb, 'breaks', '[]'::jsonb)
+        ELSE jsonb_build_object('ranges', jsonb_build_array(working_hours -> day), 'breaks', '[]'::jsonb)
+      END
+    )
+    FROM unnest(ARRAY['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']) AS day
+  ),
+  'exceptions', '[]'::jsonb
+)
+WHERE working_hours IS NOT NULL
+  AND working_hours <> '{}'::jsonb
+  AND NOT working_hours ? 'days';
+
+-- End of the open interval containing at_time, in absolute time.
+-- Returns NULL when the shop is closed at that moment and 'infinity' when it
+-- has no configured schedule. Breaks split a range; exceptions replace the day.
+CREATE OR REPLACE FUNCTION public.shop_open_until(shop_uuid UUID, at_time TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  hours JSONB;
+  tz TEXT;
+  local_ts TIMESTAMP;
+  local_t TIME;
+  day_exception JSONB;
+  ranges JSONB;
+  breaks JSONB := '[]'::jsonb;
+  range_record JSONB;
+  close_t TIME;
+BEGIN
+  SELECT working_hours INTO hours FROM public.barber_shops WHERE id = shop_uuid;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF hours IS NULL OR hours = '{}'::jsonb OR NOT hours ? 'days' THEN
+    RETURN 'infinity';
+  END IF;
+
+  tz := COALESCE(hours ->> 'timezone', 'UTC');
+  local_ts := at_time AT TIME ZONE tz;
+  local_t := local_ts::time;
+
+  SELECT e INTO day_exception
+  FROM jsonb_array_elements(COALESCE(hours -> 'exceptions', '[]'::jsonb)) AS e
+  WHERE e ->> 'date' = local_ts::date::text;
+
+  IF day_exception IS NOT NULL THEN
+    ranges := COALESCE(day_exception -> 'ranges', '[]'::jsonb);
+  ELSE
+    ranges := COALESCE(hours -> 'days' -> trim(lower(to_char(local_ts, 'day'))) -> 'ranges', '[]'::jsonb);
+    breaks := COALESCE(hours -> 'days' -> trim(lower(to_char(local_ts, 'day'))) -> 'breaks', '[]'::jsonb);
+  END IF;
+
+  FOR range_record IN SELECT * FROM jsonb_array_elements(ranges) LOOP
+    IF local_t >= (range_record ->> 'open')::time AND local_t < (range_record ->> 'close')::time THEN
+      close_t := (range_record ->> 'close')::time;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF close_t IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  FOR range_record IN SELECT * FROM jsonb_array_elements(breaks) LOOP
+    IF local_t >= (range_record ->> 'open')::time AND local_t < (range_record ->> 'close')::time THEN
+      RETURN NULL;
+    END IF;
+
+    IF (range_record ->> 'open')::time > local_t AND (range_record ->> 'open')::time < close_t THEN
+      close_t := (range_record ->> 'open')::time;
+    END IF;
+  END LOOP;
+
+  -- "24:00" casts to a time of 24:00:00, which date + time rolls into the next day
+  RETURN (local_ts::date + close_t) AT TIME ZONE tz;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_shop_open(shop_uuid UUID, at_time TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN EXISTS (SELECT 1 FROM public.barber_shops WHERE id = shop_uuid AND COALESCE(is_active, false))
+    AND public.shop_open_until(shop_uuid, at_time) IS NOT NULL;
+END;
+$$;
+
+-- Join a shop's queue as the signed-in user for one of its active services.
+-- Raises one of: not_authenticated, shop_not_found, shop_inactive, shop_closed,
+-- closing_soon, queue_full, already_in_queue, service_required, service_not_found.
+CREATE OR REPLACE FUNCTION public.join_queue(shop_uuid UUID, service_id TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  shop_record RECORD;
+  service JSONB;
+  active_count INTEGER;
+  open_until TIMESTAMP WITH TIME ZONE;
+  queued_minutes INTEGER;
+  service_minutes INTEGER;
+  new_booking public.bookings;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the shop so concurrent joins are serialised
+  SELECT * INTO shop_record FROM public.barber_shops WHERE id = shop_uuid FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'shop_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NOT COALESCE(shop_record.is_active, false) THEN
+    RAISE EXCEPTION 'shop_inactive' USING ERRCODE = 'P0001';
+  END IF;
+
+  open_until := public.shop_open_until(shop_uuid);
+  IF open_until IS NULL THEN
+    RAISE EXCEPTION 'shop_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE shop_id = shop_uuid AND user_id = caller AND status IN ('waiting', 'in_progress')
+  ) THEN
+    RAISE EXCEPTION 'already_in_queue' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COUNT(*) INTO active_count
+  FROM public.bookings
+  WHERE shop_id = shop_uuid AND status = 'waiting';
+
+  IF active_count >= COALESCE(shop_record.max_queue_limit, 10) THEN
+    RAISE EXCEPTION 'queue_full' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF service_id IS NOT NULL THEN
+    SELECT s INTO service
+    FROM jsonb_array_elements(COALESCE(shop_record.services, '[]'::jsonb)) AS s
+    WHERE s ->> 'id' = service_id AND public.is_valid_service(s) AND (s -> 'active') = 'true'::jsonb;
+
+    IF service IS NULL THEN
+      RAISE EXCEPTION 'service_not_found' USING ERRCODE = 'P0001';
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(shop_record.services, '[]'::jsonb)) AS s
+    WHERE public.is_valid_service(s) AND (s -> 'active') = 'true'::jsonb
+  ) THEN
+    -- Shops with a catalog must be booked for a specific service
+    RAISE EXCEPTION 'service_required' USING ERRCODE = 'P0001';
+  END IF;
+
+  service_minutes := COALESCE((service ->> 'duration')::integer, shop_record.avg_service_duration, 30);
+
+  -- Refuse bookings that could not be finished before the shop closes
+  SELECT COALESCE(SUM(COALESCE(service_duration, shop_record.avg_service_duration, 30)), 0) INTO queued_minutes
+  FROM public.bookings
+  WHERE shop_id = shop_uuid AND status IN ('waiting', 'in_progress');
+
+  IF now() + make_interval(mins => queued_minutes + service_minutes) > open_until THEN
+    RAISE EXCEPTION 'closing_soon' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, shop_id, service_name, service_price, service_duration, status)
+  VALUES (
+    caller,
+    shop_uuid,
+    COALESCE(service ->> 'name', 'Haircut'),
+    (service ->> 'price')::numeric,
+    service_minutes,
+    'waiting'
+  )
+  RETURNING * INTO new_booking;
+
+  PERFORM public.update_queue_positions(shop_uuid);
+
+  SELECT * INTO new_booking FROM public.bookings WHERE id = new_booking.id;
+  RETURN new_booking;
+END;
+$$;
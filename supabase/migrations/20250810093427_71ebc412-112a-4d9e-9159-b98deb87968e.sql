@@ -0,0 +1,288 @@
+-- Duration-aware wait estimation.
+-- Waits are projected by simulating the shop's chairs: each chair becomes free
+-- once its in-progress customer's remaining time has elapsed, and every waiting
+-- booking takes the earliest free chair for its own service duration.
+
+ALTER TABLE public.barber_shops
+  ADD COLUMN chair_count INTEGER NOT NULL DEFAULT 1 CHECK (chair_count >= 1);
+
+-- Projected position and wait (minutes) for each waiting booking of a shop,
+-- plus a final row with a NULL booking_id for a customer joining right now.
+CREATE OR REPLACE FUNCTION public.queue_projection(shop_uuid UUID)
+RETURNS TABLE (booking_id UUID, projected_position INTEGER, projected_wait INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  chairs INTEGER;
+  avg_duration INTEGER;
+  free_at NUMERIC[];
+  slot INTEGER;
+  booking_record RECORD;
+  position_counter INTEGER := 1;
+BEGIN
+  SELECT GREATEST(COALESCE(s.chair_count, 1), 1), COALESCE(s.avg_service_duration, 30)
+  INTO chairs, avg_duration
+  FROM public.barber_shops s
+  WHERE s.id = shop_uuid;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  free_at := array_fill(0::numeric, ARRAY[chairs]);
+
+  -- Chairs are busy for the remaining time of customers already being served
+  FOR booking_record IN
+    SELECT b.service_duration, b.started_at
+    FROM public.bookings b
+    WHERE b.shop_id = shop_uuid AND b.status = 'in_progress'
+    ORDER BY b.started_at ASC NULLS LAST
+  LOOP
+    SELECT i INTO slot FROM generate_subscripts(free_at, 1) AS i ORDER BY free_at[i], i LIMIT 1;
+    free_at[slot] := free_at[slot] + GREATEST(
+      COALESCE(booking_record.service_duration, avg_duration)
+        - COALESCE(EXTRACT(EPOCH FROM (now() - booking_record.started_at)) / 60, 0),
+      0
+    );
+  END LOOP;
+
+  FOR booking_record IN
+    SELECT b.id, b.service_duration
+    FROM public.bookings b
+    WHERE b.shop_id = shop_uuid AND b.status = 'waiting'
+    ORDER BY b.joined_at ASC
+  LOOP
+    SELECT i INTO slot FROM generate_subscripts(free_at, 1) AS i ORDER BY free_at[i], i LIMIT 1;
+
+    booking_id := booking_record.id;
+    projected_position := position_counter;
+    projected_wait := CEIL(free_at[slot]);
+    RETURN NEXT;
+
+    free_at[slot] := free_at[slot] + COALESCE(booking_record.service_duration, avg_duration);
+    position_counter := position_counter + 1;
+  END LOOP;
+
+  SELECT i INTO slot FROM generate_subscripts(free_at, 1) AS i ORDER BY free_at[i], i LIMIT 1;
+
+  booking_id := NULL;
+  projected_position := position_counter;
+  projected_wait := CEIL(free_at[slot]);
+  RETURN NEXT;
+END;
+$$;
+
+-- Write projected positions and waits onto the shop's waiting bookings.
+-- Rows whose estimate did not change are left alone so their updated_at
+-- (which anchors the customer's countdown) stays put.
+CREATE OR REPLACE FUNCTION public.update_queue_positions(shop_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.bookings b
+  SET
+    queue_position = p.projected_position,
+    estimated_wait_time = p.projected_wait
+  FROM public.queue_projection(shop_uuid) p
+  WHERE b.id = p.booking_id
+    AND (b.queue_position IS DISTINCT FROM p.projected_position
+      OR b.estimated_wait_time IS DISTINCT FROM p.projected_wait);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_shop_queue_summary(shop_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  waiting INTEGER;
+  in_progress INTEGER;
+  next_wait INTEGER;
+BEGIN
+  SELECT p.projected_wait INTO next_wait FROM public.queue_projection(shop_uuid) p WHERE p.booking_id IS NULL;
+
+  -- Shop was deleted (e.g. cascading booking deletes); nothing to summarise
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'waiting'),
+    COUNT(*) FILTER (WHERE status = 'in_progress')
+  INTO waiting, in_progress
+  FROM public.bookings
+  WHERE shop_id = shop_uuid;
+
+  INSERT INTO public.shop_queue_summary (shop_id, waiting_count, in_progress_count, estimated_wait_time, updated_at)
+  VALUES (shop_uuid, waiting, in_progress, next_wait, now())
+  ON CONFLICT (shop_id) DO UPDATE SET
+    waiting_count = EXCLUDED.waiting_count,
+    in_progress_count = EXCLUDED.in_progress_count,
+    estimated_wait_time = EXCLUDED.estimated_wait_time,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+-- Recompute estimates and the summary on every queue change
+CREATE OR REPLACE FUNCTION public.handle_booking_queue_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.update_queue_positions(OLD.shop_id);
+    PERFORM public.refresh_shop_queue_summary(OLD.shop_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.update_queue_positions(NEW.shop_id);
+  PERFORM public.refresh_shop_queue_summary(NEW.shop_id);
+
+  IF TG_OP = 'UPDATE' AND OLD.shop_id <> NEW.shop_id THEN
+    PERFORM public.update_queue_positions(OLD.shop_id);
+    PERFORM public.refresh_shop_queue_summary(OLD.shop_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- update_queue_positions only writes queue_position/estimated_wait_time, which
+-- are not in the column list, so the trigger cannot recurse.
+DROP TRIGGER IF EXISTS refresh_shop_queue_summary_on_booking ON public.bookings;
+CREATE TRIGGER refresh_shop_queue_summary_on_booking
+  AFTER INSERT OR UPDATE OF status, shop_id, joined_at, started_at, service_duration OR DELETE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_booking_queue_change();
+
+CREATE OR REPLACE FUNCTION public.handle_shop_queue_settings_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.update_queue_positions(NEW.id);
+  PERFORM public.refresh_shop_queue_summary(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_shop_queue_summary_on_shop ON public.barber_shops;
+CREATE TRIGGER refresh_shop_queue_summary_on_shop
+  AFTER INSERT OR UPDATE OF avg_service_duration, chair_count ON public.barber_shops
+  FOR EACH ROW EXECUTE FUNCTION public.handle_shop_queue_settings_change();
+
+-- Join a shop's queue as the signed-in user for one of its active services.
+-- Raises one of: not_authenticated, shop_not_found, shop_inactive, shop_closed,
+-- closing_soon, queue_full, already_in_queue, service_required, service_not_found.
+CREATE OR REPLACE FUNCTION public.join_queue(shop_uuid UUID, service_id TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  shop_record RECORD;
+  service JSONB;
+  active_count INTEGER;
+  open_until TIMESTAMP WITH TIME ZONE;
+  projected_start INTEGER;
+  service_minutes INTEGER;
+  new_booking public.bookings;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the shop so concurrent joins are serialised
+  SELECT * INTO shop_record FROM public.barber_shops WHERE id = shop_uuid FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'shop_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NOT COALESCE(shop_record.is_active, false) THEN
+    RAISE EXCEPTION 'shop_inactive' USING ERRCODE = 'P0001';
+  END IF;
+
+  open_until := public.shop_open_until(shop_uuid);
+  IF open_until IS NULL THEN
+    RAISE EXCEPTION 'shop_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE shop_id = shop_uuid AND user_id = caller AND status IN ('waiting', 'in_progress')
+  ) THEN
+    RAISE EXCEPTION 'already_in_queue' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COUNT(*) INTO active_count
+  FROM public.bookings
+  WHERE shop_id = shop_uuid AND status = 'waiting';
+
+  IF active_count >= COALESCE(shop_record.max_queue_limit, 10) THEN
+    RAISE EXCEPTION 'queue_full' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF service_id IS NOT NULL THEN
+    SELECT s INTO service
+    FROM jsonb_array_elements(COALESCE(shop_record.services, '[]'::jsonb)) AS s
+    WHERE s ->> 'id' = service_id AND public.is_valid_service(s) AND (s -> 'active') = 'true'::jsonb;
+
+    IF service IS NULL THEN
+      RAISE EXCEPTION 'service_not_found' USING ERRCODE = 'P0001';
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(shop_record.services, '[]'::jsonb)) AS s
+    WHERE public.is_valid_service(s) AND (s -> 'active') = 'true'::jsonb
+  ) THEN
+    -- Shops with a catalog must be booked for a specific service
+    RAISE EXCEPTION 'service_required' USING ERRCODE = 'P0001';
+  END IF;
+
+  service_minutes := COALESCE((service ->> 'duration')::integer, shop_record.avg_service_duration, 30);
+
+  -- Refuse bookings that could not be finished before the shop closes
+  SELECT p.projected_wait INTO projected_start FROM public.queue_projection(shop_uuid) p WHERE p.booking_id IS NULL;
+
+  IF now() + make_interval(mins => projected_start + service_minutes) > open_until THEN
+    RAISE EXCEPTION 'closing_soon' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Estimates are filled in by the booking trigger
+  INSERT INTO public.bookings (user_id, shop_id, service_name, service_price, service_duration, status)
+  VALUES (
+    caller,
+    shop_uuid,
+    COALESCE(service ->> 'name', 'Haircut'),
+    (service ->> 'price')::numeric,
+    service_minutes,
+    'waiting'
+  )
+  RETURNING * INTO new_booking;
+
+  SELECT * INTO new_booking FROM public.bookings WHERE id = new_booking.id;
+  RETURN new_booking;
+END;
+$$;
+
+-- Recompute everything once with the new engine
+SELECT public.update_queue_positions(id), public.refresh_shop_queue_summary(id) FROM public.barber_shops;
+
+-- Internal helpers: reached through join_queue and the booking triggers only.
+-- queue_projection returns booking ids for any shop, so keep it off the API.
+REVOKE EXECUTE ON FUNCTION public.queue_projection(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.update_queue_positions(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_shop_queue_summary(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,210 @@
+-- Learned service durations.
+-- Rolling statistics of how long services actually take (completed_at - started_at
+-- over the last 90 days) replace the configured durations in wait estimates once
+-- enough samples exist.
+
+CREATE TABLE public.service_duration_stats (
+  shop_id UUID REFERENCES public.barber_shops(id) ON DELETE CASCADE NOT NULL,
+  service_name TEXT NOT NULL,
+  sample_count INTEGER NOT NULL DEFAULT 0,
+  median_minutes NUMERIC(6,1),
+  p80_minutes NUMERIC(6,1),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (shop_id, service_name)
+);
+
+ALTER TABLE public.barber_shops
+  ADD COLUMN learned_duration_median NUMERIC(6,1),
+  ADD COLUMN learned_duration_p80 NUMERIC(6,1),
+  ADD COLUMN learned_duration_samples INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.service_duration_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Barbers can view duration stats for their shop" ON public.service_duration_stats FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.barber_shops WHERE barber_shops.user_id = auth.uid() AND barber_shops.id = service_duration_stats.shop_id)
+);
+
+-- Actual service durations (in minutes) of a shop's recently completed bookings.
+-- Durations outside 1-480 minutes are treated as mistakes (e.g. a forgotten "Mark Done").
+CREATE OR REPLACE FUNCTION public.recent_service_durations(shop_uuid UUID)
+RETURNS TABLE (service_name TEXT, minutes NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+  SELECT b.service_name, EXTRACT(EPOCH FROM (b.completed_at - b.started_at)) / 60
+  FROM public.bookings b
+  WHERE b.shop_id = shop_uuid
+    AND b.status = 'completed'
+    AND b.started_at IS NOT NULL
+    AND b.completed_at IS NOT NULL
+    AND b.completed_at > now() - interval '90 days'
+    AND b.completed_at - b.started_at BETWEEN interval '1 minute' AND interval '480 minutes';
+$$;
+
+-- Recompute per-shop and per-service duration statistics from completed bookings
+CREATE OR REPLACE FUNCTION public.refresh_duration_stats(shop_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.barber_shops
+  SET
+    (learned_duration_median, learned_duration_p80, learned_duration_samples) = (
+      SELECT
+        ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY d.minutes))::numeric, 1),
+        ROUND((percentile_cont(0.8) WITHIN GROUP (ORDER BY d.minutes))::numeric, 1),
+        COUNT(*)
+      FROM public.recent_service_durations(shop_uuid) d
+    )
+  WHERE id = shop_uuid;
+
+  DELETE FROM public.service_duration_stats WHERE shop_id = shop_uuid;
+
+  INSERT INTO public.service_duration_stats (shop_id, service_name, sample_count, median_minutes, p80_minutes, updated_at)
+  SELECT
+    shop_uuid,
+    d.service_name,
+    COUNT(*),
+    ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY d.minutes))::numeric, 1),
+    ROUND((percentile_cont(0.8) WITHIN GROUP (ORDER BY d.minutes))::numeric, 1),
+    now()
+  FROM public.recent_service_durations(shop_uuid) d
+  GROUP BY d.service_name;
+END;
+$$;
+
+-- Recompute every shop; scheduled nightly below so old samples age out
+CREATE OR REPLACE FUNCTION public.refresh_all_duration_stats()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.refresh_duration_stats(id) FROM public.barber_shops;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_booking_completed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.refresh_duration_stats(NEW.shop_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_duration_stats_on_completion
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION public.handle_booking_completed();
+
+-- Minutes a booking is expected to take: the learned median for its service,
+-- else the duration it was booked with, else the shop's learned median, else
+-- the configured average. Learned values need at least 5 samples.
+CREATE OR REPLACE FUNCTION public.expected_service_duration(shop_uuid UUID, booked_service TEXT, booked_duration INTEGER)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+  SELECT COALESCE(
+    (SELECT st.median_minutes FROM public.service_duration_stats st
+      WHERE st.shop_id = shop_uuid AND st.service_name = booked_service AND st.sample_count >= 5),
+    booked_duration::numeric,
+    (SELECT s.learned_duration_median FROM public.barber_shops s
+      WHERE s.id = shop_uuid AND s.learned_duration_samples >= 5),
+    (SELECT s.avg_service_duration::numeric FROM public.barber_shops s WHERE s.id = shop_uuid),
+    30
+  );
+$$;
+
+-- Same chair simulation as before, now using expected (learned) durations
+CREATE OR REPLACE FUNCTION public.queue_projection(shop_uuid UUID)
+RETURNS TABLE (booking_id UUID, projected_position INTEGER, projected_wait INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  chairs INTEGER;
+  free_at NUMERIC[];
+  slot INTEGER;
+  booking_record RECORD;
+  position_counter INTEGER := 1;
+BEGIN
+  SELECT GREATEST(COALESCE(s.chair_count, 1), 1)
+  INTO chairs
+  FROM public.barber_shops s
+  WHERE s.id = shop_uuid;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  free_at := array_fill(0::numeric, ARRAY[chairs]);
+
+  -- Chairs are busy for the remaining time of customers already being served
+  FOR booking_record IN
+    SELECT public.expected_service_duration(shop_uuid, b.service_name, b.service_duration) AS duration, b.started_at
+    FROM public.bookings b
+    WHERE b.shop_id = shop_uuid AND b.status = 'in_progress'
+    ORDER BY b.started_at ASC NULLS LAST
+  LOOP
+    SELECT i INTO slot FROM generate_subscripts(free_at, 1) AS i ORDER BY free_at[i], i LIMIT 1;
+    free_at[slot] := free_at[slot] + GREATEST(
+      booking_record.duration - COALESCE(EXTRACT(EPOCH FROM (now() - booking_record.started_at)) / 60, 0),
+      0
+    );
+  END LOOP;
+
+  FOR booking_record IN
+    SELECT b.id, public.expected_service_duration(shop_uuid, b.service_name, b.service_duration) AS duration
+    FROM public.bookings b
+    WHERE b.shop_id = shop_uuid AND b.status = 'waiting'
+    ORDER BY b.joined_at ASC
+  LOOP
+    SELECT i INTO slot FROM generate_subscripts(free_at, 1) AS i ORDER BY free_at[i], i LIMIT 1;
+
+    booking_id := booking_record.id;
+    projected_position := position_counter;
+    projected_wait := CEIL(free_at[slot]);
+    RETURN NEXT;
+
+    free_at[slot] := free_at[slot] + booking_record.duration;
+    position_counter := position_counter + 1;
+  END LOOP;
+
+  SELECT i INTO slot FROM generate_subscripts(free_at, 1) AS i ORDER BY free_at[i], i LIMIT 1;
+
+  booking_id := NULL;
+  projected_position := position_counter;
+  projected_wait := CEIL(free_at[slot]);
+  RETURN NEXT;
+END;
+$$;
+
+-- Backfill statistics and estimates
+SELECT public.refresh_all_duration_stats();
+SELECT public.update_queue_positions(id), public.refresh_shop_queue_summary(id) FROM public.barber_shops;
+
+-- Shops with no new completions would otherwise keep samples past the 90-day window
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+SELECT cron.schedule('refresh-duration-stats', '0 3 * * *', 'SELECT public.refresh_all_duration_stats()');
+
+-- Internal helpers: reached through the completion trigger, queue_projection and
+-- the schedule only, so visitors can't trigger recomputes or read other shops' data.
+REVOKE EXECUTE ON FUNCTION public.recent_service_durations(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_duration_stats(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_all_duration_stats() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expected_service_duration(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,68 @@
+-- Editable shop settings.
+-- Numeric settings get range checks matching the settings form, and every
+-- change to a setting is recorded in an append-only audit trail.
+
+-- Bring existing values into range first so the checks can be added
+UPDATE public.barber_shops
+SET
+  max_queue_limit = LEAST(GREATEST(max_queue_limit, 1), 100),
+  avg_service_duration = LEAST(GREATEST(avg_service_duration, 5), 480),
+  chair_count = LEAST(GREATEST(chair_count, 1), 20)
+WHERE max_queue_limit NOT BETWEEN 1 AND 100
+  OR avg_service_duration NOT BETWEEN 5 AND 480
+  OR chair_count NOT BETWEEN 1 AND 20;
+
+ALTER TABLE public.barber_shops
+  ADD CONSTRAINT barber_shops_max_queue_limit_range CHECK (max_queue_limit BETWEEN 1 AND 100),
+  ADD CONSTRAINT barber_shops_avg_service_duration_range CHECK (avg_service_duration BETWEEN 5 AND 480),
+  ADD CONSTRAINT barber_shops_chair_count_range CHECK (chair_count BETWEEN 1 AND 20);
+
+CREATE TABLE public.shop_settings_audit (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  shop_id UUID REFERENCES public.barber_shops(id) ON DELETE CASCADE NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  field TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX shop_settings_audit_shop_id_changed_at_idx ON public.shop_settings_audit (shop_id, changed_at DESC);
+
+ALTER TABLE public.shop_settings_audit ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below, so there are no write policies
+CREATE POLICY "Barbers can view their shop's settings history" ON public.shop_settings_audit FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.barber_shops WHERE barber_shops.user_id = auth.uid() AND barber_shops.id = shop_settings_audit.shop_id)
+);
+
+-- One audit row per changed setting
+CREATE OR REPLACE FUNCTION public.handle_shop_settings_audit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  setting TEXT;
+BEGIN
+  FOREACH setting IN ARRAY ARRAY[
+    'shop_name', 'shop_address', 'max_queue_limit', 'avg_service_duration',
+    'chair_count', 'services', 'working_hours', 'is_active'
+  ] LOOP
+    IF old_row -> setting IS DISTINCT FROM new_row -> setting THEN
+      INSERT INTO public.shop_settings_audit (shop_id, changed_by, field, old_value, new_value)
+      VALUES (NEW.id, auth.uid(), setting, old_row -> setting, new_row -> setting);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_shop_settings
+  AFTER UPDATE OF shop_name, shop_address, max_queue_limit, avg_service_duration, chair_count, services, working_hours, is_active
+  ON public.barber_shops
+  FOR EACH ROW EXECUTE FUNCTION public.handle_shop_settings_audit();
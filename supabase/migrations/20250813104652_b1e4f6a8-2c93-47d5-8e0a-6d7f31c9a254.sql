@@ -0,0 +1,93 @@
+-- Walk-in customers.
+-- A booking now belongs either to a signed-in customer (user_id) or to a guest
+-- the barber entered by hand (guest_name, optional guest_phone). Guests have no
+-- auth.users row but take a place in the queue like anyone else.
+
+ALTER TABLE public.bookings
+  ALTER COLUMN user_id DROP NOT NULL,
+  ADD COLUMN guest_name TEXT,
+  ADD COLUMN guest_phone TEXT;
+
+-- Earlier walk-ins were stored under the barber's own user id
+UPDATE public.bookings b
+SET user_id = NULL, guest_name = 'Walk-in'
+FROM public.barber_shops s
+WHERE b.shop_id = s.id
+  AND b.user_id = s.user_id
+  AND b.service_name = 'Walk-in Haircut';
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_customer_identity CHECK (user_id IS NOT NULL OR guest_name IS NOT NULL);
+
+-- Walk-ins are added through add_walk_in; nobody inserts bookings directly anymore
+DROP POLICY IF EXISTS "Barbers can create bookings for their shop" ON public.bookings;
+
+-- Add a walk-in guest to the signed-in barber's queue.
+-- Opening hours and the queue limit are not enforced: the customer is already
+-- in the shop and the barber decides whether to take them.
+-- Raises one of: not_authenticated, shop_not_found, guest_name_required,
+-- service_not_found, service_inactive.
+CREATE OR REPLACE FUNCTION public.add_walk_in(
+  shop_uuid UUID,
+  guest_name TEXT,
+  guest_phone TEXT DEFAULT NULL,
+  service_id TEXT DEFAULT NULL
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  shop_record RECORD;
+  service JSONB;
+  new_booking public.bookings;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO shop_record FROM public.barber_shops WHERE id = shop_uuid AND user_id = caller FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'shop_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NULLIF(trim(guest_name), '') IS NULL THEN
+    RAISE EXCEPTION 'guest_name_required' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF service_id IS NOT NULL THEN
+    SELECT s INTO service
+    FROM jsonb_array_elements(COALESCE(shop_record.services, '[]'::jsonb)) AS s
+    WHERE s ->> 'id' = service_id AND public.is_valid_service(s);
+
+    IF service IS NULL THEN
+      RAISE EXCEPTION 'service_not_found' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Same catalog rules as join_queue: paused services can't be booked
+    IF (service -> 'active') <> 'true'::jsonb THEN
+      RAISE EXCEPTION 'service_inactive' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- Estimates are filled in by the booking trigger
+  INSERT INTO public.bookings (user_id, guest_name, guest_phone, shop_id, service_name, service_price, service_duration, status)
+  VALUES (
+    NULL,
+    trim(guest_name),
+    NULLIF(trim(guest_phone), ''),
+    shop_uuid,
+    COALESCE(service ->> 'name', 'Haircut'),
+    (service ->> 'price')::numeric,
+    COALESCE((service ->> 'duration')::integer, shop_record.avg_service_duration, 30),
+    'waiting'
+  )
+  RETURNING * INTO new_booking;
+
+  SELECT * INTO new_booking FROM public.bookings WHERE id = new_booking.id;
+  RETURN new_booking;
+END;
+$$;
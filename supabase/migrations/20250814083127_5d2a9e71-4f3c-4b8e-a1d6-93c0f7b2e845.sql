@@ -0,0 +1,99 @@
+-- Admin review of barber registration requests.
+-- Admins (profiles.role = 'admin') can read and decide on requests; every
+-- status change is kept in registration_request_events.
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+ALTER TABLE public.barber_registration_requests
+  ADD COLUMN review_notes TEXT,
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.barber_registration_requests SET status = 'pending' WHERE status IS NULL;
+
+ALTER TABLE public.barber_registration_requests
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT barber_registration_requests_status_check CHECK (status IN ('pending', 'approved', 'rejected'));
+
+DROP POLICY IF EXISTS "Only admins can view registration requests" ON public.barber_registration_requests;
+CREATE POLICY "Admins can view registration requests" ON public.barber_registration_requests FOR SELECT USING (public.is_admin());
+CREATE POLICY "Admins can update registration requests" ON public.barber_registration_requests FOR UPDATE USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- Applicants can only submit fresh requests; review fields are set by admins
+DROP POLICY IF EXISTS "Anyone can submit registration requests" ON public.barber_registration_requests;
+CREATE POLICY "Anyone can submit registration requests" ON public.barber_registration_requests FOR INSERT WITH CHECK (
+  status = 'pending' AND reviewed_by IS NULL AND reviewed_at IS NULL AND review_notes IS NULL
+);
+
+CREATE TABLE public.registration_request_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID REFERENCES public.barber_registration_requests(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL,
+  notes TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX registration_request_events_request_id_idx ON public.registration_request_events (request_id, created_at);
+
+ALTER TABLE public.registration_request_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below
+CREATE POLICY "Admins can view registration history" ON public.registration_request_events FOR SELECT USING (public.is_admin());
+
+-- Stamp who reviewed a request and when
+CREATE OR REPLACE FUNCTION public.handle_registration_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.reviewed_by := auth.uid();
+  NEW.reviewed_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_registration_review
+  BEFORE UPDATE OF status ON public.barber_registration_requests
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.handle_registration_review();
+
+CREATE OR REPLACE FUNCTION public.handle_registration_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.registration_request_events (request_id, status, notes, changed_by)
+  VALUES (NEW.id, NEW.status, CASE WHEN TG_OP = 'UPDATE' THEN NEW.review_notes END, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_registration_submitted
+  AFTER INSERT ON public.barber_registration_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_registration_status_change();
+
+CREATE TRIGGER log_registration_status_change
+  AFTER UPDATE OF status ON public.barber_registration_requests
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.handle_registration_status_change();
+
+-- Start the history of existing requests at submission time
+INSERT INTO public.registration_request_events (request_id, status, created_at)
+SELECT id, 'pending', COALESCE(created_at, now()) FROM public.barber_registration_requests;
@@ -0,0 +1,111 @@
+-- One-click barber provisioning.
+-- Approving a registration request invites the applicant by email (done by the
+-- approve-barber-registration edge function) and then calls
+-- provision_barber_from_request to create their barber profile and shop in one
+-- transaction, linking the request to the new shop.
+
+ALTER TABLE public.barber_registration_requests
+  ADD COLUMN email TEXT,
+  ADD COLUMN shop_id UUID REFERENCES public.barber_shops(id) ON DELETE SET NULL,
+  -- IANA zone the applicant's working hours are in
+  ADD COLUMN timezone TEXT;
+
+DROP POLICY IF EXISTS "Anyone can submit registration requests" ON public.barber_registration_requests;
+CREATE POLICY "Anyone can submit registration requests" ON public.barber_registration_requests FOR INSERT WITH CHECK (
+  status = 'pending' AND reviewed_by IS NULL AND reviewed_at IS NULL AND review_notes IS NULL AND shop_id IS NULL
+);
+
+-- Requests approved by the edge function run as the service role, where
+-- auth.uid() is NULL; keep the reviewer it passes in reviewed_by instead.
+CREATE OR REPLACE FUNCTION public.handle_registration_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.reviewed_by := COALESCE(auth.uid(), NEW.reviewed_by);
+  NEW.reviewed_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_registration_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.registration_request_events (request_id, status, notes, changed_by)
+  VALUES (
+    NEW.id,
+    NEW.status,
+    CASE WHEN TG_OP = 'UPDATE' THEN NEW.review_notes END,
+    COALESCE(auth.uid(), CASE WHEN TG_OP = 'UPDATE' THEN NEW.reviewed_by END)
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Create the barber profile and shop for an approved request.
+-- Raises one of: request_not_found, request_not_pending.
+CREATE OR REPLACE FUNCTION public.provision_barber_from_request(
+  request_uuid UUID,
+  barber_uuid UUID,
+  reviewer_uuid UUID,
+  shop_services JSONB DEFAULT '[]'::jsonb,
+  shop_working_hours JSONB DEFAULT '{}'::jsonb,
+  notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  request_record public.barber_registration_requests;
+  new_shop_id UUID;
+BEGIN
+  SELECT * INTO request_record FROM public.barber_registration_requests WHERE id = request_uuid FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'request_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF request_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'request_not_pending' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- The profile normally exists already (created by handle_new_user on invite)
+  INSERT INTO public.profiles (user_id, name, phone, role)
+  VALUES (barber_uuid, request_record.name, request_record.phone, 'barber')
+  ON CONFLICT (user_id) DO UPDATE SET
+    name = EXCLUDED.name,
+    phone = EXCLUDED.phone,
+    role = 'barber';
+
+  INSERT INTO public.barber_shops (user_id, shop_name, shop_address, services, working_hours)
+  VALUES (
+    barber_uuid,
+    request_record.shop_name,
+    request_record.shop_address,
+    COALESCE(shop_services, '[]'::jsonb),
+    COALESCE(shop_working_hours, '{}'::jsonb)
+  )
+  RETURNING id INTO new_shop_id;
+
+  UPDATE public.barber_registration_requests
+  SET
+    status = 'approved',
+    review_notes = notes,
+    reviewed_by = reviewer_uuid,
+    shop_id = new_shop_id
+  WHERE id = request_uuid;
+
+  RETURN new_shop_id;
+END;
+$$;
+
+-- Only the edge function (service role) may provision accounts
+REVOKE EXECUTE ON FUNCTION public.provision_barber_from_request(UUID, UUID, UUID, JSONB, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,52 @@
+-- Server-authoritative roles.
+-- Self sign-up always creates a customer: the role in user metadata is no
+-- longer trusted. Barbers are provisioned by admins (provision_barber_from_request)
+-- and only admins or the service role can change a profile's role.
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, name, phone, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', ''),
+    COALESCE(NEW.raw_user_meta_data ->> 'phone', ''),
+    'customer'::public.user_role
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_profile_role_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  -- auth.uid() is NULL for the service role and migrations
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'role_change_forbidden' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_role
+  BEFORE UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.role IS DISTINCT FROM NEW.role)
+  EXECUTE FUNCTION public.handle_profile_role_change();
+
+-- A profile may only be inserted by its owner as a customer
+DROP POLICY IF EXISTS "Users can insert their own profile" ON public.profiles;
+CREATE POLICY "Users can insert their own profile" ON public.profiles FOR INSERT WITH CHECK (auth.uid() = user_id AND role = 'customer');
+
+-- Shops are created only by provision_barber_from_request when an admin
+-- approves a registration, never directly by a signed-in user
+DROP POLICY IF EXISTS "Barbers can insert their own shop" ON public.barber_shops;
@@ -0,0 +1,52 @@
+-- Phone OTP sign-in.
+-- Phone sign-ups have no phone in their metadata, so new profiles fall back to
+-- the auth user's phone. Once a phone is confirmed (sign-up or linked to an
+-- email account) it is copied to the profile so barbers see the verified number.
+-- auth.users stores phones without the leading "+".
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, name, phone, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', ''),
+    COALESCE(
+      NULLIF(NEW.raw_user_meta_data ->> 'phone', ''),
+      '+' || NULLIF(NEW.phone, ''),
+      ''
+    ),
+    'customer'::public.user_role
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_user_phone_confirmed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET phone = '+' || NEW.phone
+  WHERE user_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profile_phone
+  AFTER UPDATE OF phone, phone_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (
+    NEW.phone_confirmed_at IS NOT NULL
+    AND NULLIF(NEW.phone, '') IS NOT NULL
+    AND (OLD.phone IS DISTINCT FROM NEW.phone OR OLD.phone_confirmed_at IS NULL)
+  )
+  EXECUTE FUNCTION public.handle_user_phone_confirmed();
@@ -0,0 +1,8 @@
+-- Customers keep seeing the shops they saved after a shop is deactivated, so
+-- the Favorites tab can show them as unavailable instead of dropping them
+CREATE POLICY "Users can view shops they saved" ON public.barber_shops FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.favorites f
+    WHERE f.shop_id = barber_shops.id AND f.user_id = auth.uid()
+  )
+);
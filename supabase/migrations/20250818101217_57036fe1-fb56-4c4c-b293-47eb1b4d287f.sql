@@ -0,0 +1,137 @@
+-- Post-visit reviews.
+-- A review belongs to one completed booking and can only be written by that
+-- booking's customer, once. It can be edited for 7 days after it was posted.
+-- Reviews are written through submit_review / update_review; the direct
+-- insert and update policies are dropped so these rules can't be bypassed.
+
+ALTER TABLE public.reviews
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+CREATE TRIGGER update_reviews_updated_at BEFORE UPDATE ON public.reviews FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP POLICY IF EXISTS "Users can create their own reviews" ON public.reviews;
+DROP POLICY IF EXISTS "Users can update their own reviews" ON public.reviews;
+
+-- Ratings and tags are checked on every write, whoever makes it.
+-- Raises one of: invalid_rating, invalid_tag.
+CREATE OR REPLACE FUNCTION public.handle_review_validation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.rating IS NULL OR NEW.rating < 1 OR NEW.rating > 5 THEN
+    RAISE EXCEPTION 'invalid_rating' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(COALESCE(NEW.tags, '{}')) AS tag
+    WHERE tag <> ALL (ARRAY['clean', 'friendly', 'fast', 'skilled', 'great_value', 'on_time'])
+  ) THEN
+    RAISE EXCEPTION 'invalid_tag' USING ERRCODE = 'P0001';
+  END IF;
+
+  NEW.review_text := NULLIF(trim(NEW.review_text), '');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_review
+  BEFORE INSERT OR UPDATE ON public.reviews
+  FOR EACH ROW EXECUTE FUNCTION public.handle_review_validation();
+
+-- Edits can change the rating, so keep the shop's average in sync
+CREATE TRIGGER update_shop_rating_on_review_edit
+  AFTER UPDATE OF rating ON public.reviews
+  FOR EACH ROW
+  WHEN (OLD.rating IS DISTINCT FROM NEW.rating)
+  EXECUTE FUNCTION public.update_shop_rating();
+
+-- Review the signed-in customer's completed booking.
+-- Raises one of: not_authenticated, booking_not_found, booking_not_completed,
+-- already_reviewed, invalid_rating, invalid_tag.
+CREATE OR REPLACE FUNCTION public.submit_review(
+  booking_uuid UUID,
+  rating INTEGER,
+  review_text TEXT DEFAULT NULL,
+  tags TEXT[] DEFAULT '{}'
+)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  booking_record RECORD;
+  new_review public.reviews;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO booking_record FROM public.bookings WHERE id = booking_uuid AND user_id = caller;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'booking_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF booking_record.status <> 'completed' THEN
+    RAISE EXCEPTION 'booking_not_completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reviews r WHERE r.booking_id = booking_uuid) THEN
+    RAISE EXCEPTION 'already_reviewed' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.reviews (user_id, shop_id, booking_id, rating, review_text, tags)
+  VALUES (caller, booking_record.shop_id, booking_uuid, rating, review_text, COALESCE(tags, '{}'))
+  RETURNING * INTO new_review;
+
+  RETURN new_review;
+END;
+$$;
+
+-- Edit one of the signed-in customer's reviews within 7 days of posting it.
+-- Raises one of: not_authenticated, review_not_found, edit_window_closed,
+-- invalid_rating, invalid_tag.
+CREATE OR REPLACE FUNCTION public.update_review(
+  review_uuid UUID,
+  rating INTEGER,
+  review_text TEXT DEFAULT NULL,
+  tags TEXT[] DEFAULT '{}'
+)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  review_record public.reviews;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO review_record FROM public.reviews WHERE id = review_uuid AND user_id = caller FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'review_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF review_record.created_at < now() - INTERVAL '7 days' THEN
+    RAISE EXCEPTION 'edit_window_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.reviews r
+  SET rating = update_review.rating,
+      review_text = update_review.review_text,
+      tags = COALESCE(update_review.tags, '{}')
+  WHERE r.id = review_uuid
+  RETURNING * INTO review_record;
+
+  RETURN review_record;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Rating breakdown for the public shop page.
+-- One row per star rating (kind = 'rating', value = '1'..'5') and per review tag
+-- (kind = 'tag') that has at least one review. Readable by signed-out visitors.
+CREATE OR REPLACE FUNCTION public.shop_review_breakdown(shop_uuid UUID)
+RETURNS TABLE (kind TEXT, value TEXT, review_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+  SELECT 'rating', r.rating::text, COUNT(*)
+  FROM public.reviews r
+  WHERE r.shop_id = shop_uuid
+  GROUP BY r.rating
+  UNION ALL
+  SELECT 'tag', tag, COUNT(*)
+  FROM public.reviews r, unnest(COALESCE(r.tags, '{}')) AS tag
+  WHERE r.shop_id = shop_uuid
+  GROUP BY tag;
+$$;
@@ -0,0 +1,203 @@
+-- Barber responses and review moderation.
+-- A shop owner can publicly reply once to each review of their shop. Anyone
+-- signed in can report a review; admins work through open reports and can hide
+-- a review, which drops it from public view and from the shop's rating.
+
+-- Responses
+
+CREATE TABLE public.review_responses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  responder_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  response_text TEXT NOT NULL CHECK (length(trim(response_text)) BETWEEN 1 AND 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.review_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_review_responses_updated_at BEFORE UPDATE ON public.review_responses FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether the signed-in user owns the shop a review is about
+CREATE OR REPLACE FUNCTION public.owns_reviewed_shop(review_uuid UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.reviews r
+    JOIN public.barber_shops s ON s.id = r.shop_id
+    WHERE r.id = review_uuid AND s.user_id = auth.uid()
+  );
+$$;
+
+CREATE POLICY "Everyone can view review responses" ON public.review_responses FOR SELECT USING (true);
+CREATE POLICY "Shop owners can respond to reviews" ON public.review_responses FOR INSERT WITH CHECK (
+  responder_id = auth.uid() AND public.owns_reviewed_shop(review_id)
+);
+CREATE POLICY "Shop owners can edit their responses" ON public.review_responses FOR UPDATE
+  USING (public.owns_reviewed_shop(review_id))
+  WITH CHECK (responder_id = auth.uid() AND public.owns_reviewed_shop(review_id));
+
+-- Hidden reviews
+
+ALTER TABLE public.reviews
+  ADD COLUMN is_hidden BOOLEAN NOT NULL DEFAULT false;
+
+-- Authors still see their own hidden reviews
+DROP POLICY IF EXISTS "Everyone can view reviews" ON public.reviews;
+CREATE POLICY "Everyone can view visible reviews" ON public.reviews FOR SELECT USING (
+  NOT is_hidden OR auth.uid() = user_id OR public.is_admin()
+);
+
+-- Latest hide/restore decision per review. Kept off public.reviews, which
+-- everyone can read, so moderators' notes stay admin-only.
+CREATE TABLE public.review_moderations (
+  review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE NOT NULL PRIMARY KEY,
+  action TEXT NOT NULL CHECK (action IN ('hide', 'restore')),
+  notes TEXT,
+  moderated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  moderated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.review_moderations ENABLE ROW LEVEL SECURITY;
+
+-- Written only by moderate_review
+CREATE POLICY "Admins can view review moderations" ON public.review_moderations FOR SELECT USING (public.is_admin());
+
+-- Reports
+
+CREATE TABLE public.review_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE NOT NULL,
+  reporter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'fake', 'other')),
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'actioned', 'dismissed')),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(review_id, reporter_id)
+);
+
+CREATE INDEX review_reports_open_idx ON public.review_reports (created_at) WHERE status = 'open';
+
+ALTER TABLE public.review_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can report reviews" ON public.review_reports FOR INSERT WITH CHECK (
+  reporter_id = auth.uid() AND status = 'open'
+);
+CREATE POLICY "Users can view their own reports" ON public.review_reports FOR SELECT USING (
+  reporter_id = auth.uid() OR public.is_admin()
+);
+
+-- Shop ratings only count visible reviews
+
+CREATE OR REPLACE FUNCTION public.update_shop_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  -- Update rating average and total reviews count
+  UPDATE public.barber_shops
+  SET
+    rating_avg = COALESCE((
+      SELECT ROUND(AVG(rating)::numeric, 2)
+      FROM public.reviews
+      WHERE shop_id = NEW.shop_id AND NOT is_hidden
+    ), 0),
+    total_reviews = (
+      SELECT COUNT(*)
+      FROM public.reviews
+      WHERE shop_id = NEW.shop_id AND NOT is_hidden
+    )
+  WHERE id = NEW.shop_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_shop_rating_on_review_moderation
+  AFTER UPDATE OF is_hidden ON public.reviews
+  FOR EACH ROW
+  WHEN (OLD.is_hidden IS DISTINCT FROM NEW.is_hidden)
+  EXECUTE FUNCTION public.update_shop_rating();
+
+CREATE OR REPLACE FUNCTION public.shop_review_breakdown(shop_uuid UUID)
+RETURNS TABLE (kind TEXT, value TEXT, review_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+  SELECT 'rating', r.rating::text, COUNT(*)
+  FROM public.reviews r
+  WHERE r.shop_id = shop_uuid AND NOT r.is_hidden
+  GROUP BY r.rating
+  UNION ALL
+  SELECT 'tag', tag, COUNT(*)
+  FROM public.reviews r, unnest(COALESCE(r.tags, '{}')) AS tag
+  WHERE r.shop_id = shop_uuid AND NOT r.is_hidden
+  GROUP BY tag;
+$$;
+
+-- Admin decision on a review: 'hide' or 'restore' it, or 'dismiss' its open
+-- reports and leave it visible. Open reports are resolved in every case.
+-- Raises one of: not_admin, review_not_found, invalid_action.
+CREATE OR REPLACE FUNCTION public.moderate_review(
+  review_uuid UUID,
+  action TEXT,
+  notes TEXT DEFAULT NULL
+)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  review_record public.reviews;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'not_admin' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF action NOT IN ('hide', 'restore', 'dismiss') THEN
+    RAISE EXCEPTION 'invalid_action' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO review_record FROM public.reviews WHERE id = review_uuid FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'review_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF action <> 'dismiss' THEN
+    UPDATE public.reviews
+    SET is_hidden = (action = 'hide')
+    WHERE id = review_uuid
+    RETURNING * INTO review_record;
+
+    INSERT INTO public.review_moderations (review_id, action, notes, moderated_by, moderated_at)
+    VALUES (review_uuid, action, NULLIF(trim(notes), ''), caller, now())
+    ON CONFLICT (review_id) DO UPDATE
+    SET action = EXCLUDED.action,
+        notes = EXCLUDED.notes,
+        moderated_by = EXCLUDED.moderated_by,
+        moderated_at = EXCLUDED.moderated_at;
+  END IF;
+
+  UPDATE public.review_reports
+  SET status = CASE WHEN action = 'hide' THEN 'actioned' ELSE 'dismissed' END,
+      resolved_by = caller,
+      resolved_at = now()
+  WHERE review_id = review_uuid AND status = 'open';
+
+  RETURN review_record;
+END;
+$$;
@@ -0,0 +1,140 @@
+-- Shop aggregates (rating_avg, total_reviews, total_bookings) kept in one place.
+-- update_shop_rating only ran on review insert, edit and moderation and read
+-- NEW, so a deleted review or one moved to another shop left the old shop's
+-- rating stale, and total_bookings was never written. Every write path now goes
+-- through refresh_shop_stats, which recomputes all three from scratch.
+-- total_bookings counts completed visits.
+
+DROP TRIGGER IF EXISTS update_shop_rating_on_review ON public.reviews;
+DROP TRIGGER IF EXISTS update_shop_rating_on_review_edit ON public.reviews;
+DROP TRIGGER IF EXISTS update_shop_rating_on_review_moderation ON public.reviews;
+DROP FUNCTION IF EXISTS public.update_shop_rating();
+
+CREATE OR REPLACE FUNCTION public.refresh_shop_stats(shop_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.barber_shops
+  SET
+    rating_avg = COALESCE((
+      SELECT ROUND(AVG(rating)::numeric, 2)
+      FROM public.reviews
+      WHERE shop_id = shop_uuid AND NOT is_hidden
+    ), 0),
+    total_reviews = (
+      SELECT COUNT(*)
+      FROM public.reviews
+      WHERE shop_id = shop_uuid AND NOT is_hidden
+    ),
+    total_bookings = (
+      SELECT COUNT(*)
+      FROM public.bookings
+      WHERE shop_id = shop_uuid AND status = 'completed'
+    )
+  WHERE id = shop_uuid;
+END;
+$$;
+
+-- Refresh the shop a row belongs to, and the shop it left if shop_id changed
+CREATE OR REPLACE FUNCTION public.handle_shop_stats_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_shop_stats(OLD.shop_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_shop_stats(NEW.shop_id);
+
+  IF TG_OP = 'UPDATE' AND OLD.shop_id <> NEW.shop_id THEN
+    PERFORM public.refresh_shop_stats(OLD.shop_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_shop_stats_on_review
+  AFTER INSERT OR UPDATE OF rating, is_hidden, shop_id OR DELETE ON public.reviews
+  FOR EACH ROW EXECUTE FUNCTION public.handle_shop_stats_change();
+
+-- Bookings only count once completed, so inserts (always 'waiting') are skipped
+CREATE TRIGGER refresh_shop_stats_on_booking_update
+  AFTER UPDATE OF status, shop_id ON public.bookings
+  FOR EACH ROW
+  WHEN (
+    (OLD.status = 'completed' OR NEW.status = 'completed')
+    AND (OLD.status IS DISTINCT FROM NEW.status OR OLD.shop_id <> NEW.shop_id)
+  )
+  EXECUTE FUNCTION public.handle_shop_stats_change();
+
+CREATE TRIGGER refresh_shop_stats_on_booking_delete
+  AFTER DELETE ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.status = 'completed')
+  EXECUTE FUNCTION public.handle_shop_stats_change();
+
+-- Admin repair for drifted aggregates: one shop, or every shop when shop_uuid
+-- is null. Returns the number of shops recomputed.
+-- Raises one of: not_admin.
+CREATE OR REPLACE FUNCTION public.recompute_shop_stats(shop_uuid UUID DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY definer
+SET search_path = ''
+AS $$
+DECLARE
+  shop_count INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'not_admin' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM public.refresh_shop_stats(id)
+  FROM public.barber_shops
+  WHERE shop_uuid IS NULL OR id = shop_uuid;
+
+  GET DIAGNOSTICS shop_count = ROW_COUNT;
+  RETURN shop_count;
+END;
+$$;
+
+-- Existing shops start from correct numbers
+SELECT public.refresh_shop_stats(id) FROM public.barber_shops;
+
+-- Reached through the triggers and recompute_shop_stats (admin-only) only
+REVOKE EXECUTE ON FUNCTION public.refresh_shop_stats(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Aggregates and learned durations are derived data. Owners can update their
+-- shop row, so writes made as a client role keep the stored values; only
+-- refresh_shop_stats and refresh_duration_stats (SECURITY definer, running as
+-- the function owner) change them.
+CREATE OR REPLACE FUNCTION public.protect_shop_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.rating_avg := OLD.rating_avg;
+    NEW.total_reviews := OLD.total_reviews;
+    NEW.total_bookings := OLD.total_bookings;
+    NEW.learned_duration_median := OLD.learned_duration_median;
+    NEW.learned_duration_p80 := OLD.learned_duration_p80;
+    NEW.learned_duration_samples := OLD.learned_duration_samples;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_shop_stats
+  BEFORE UPDATE ON public.barber_shops
+  FOR EACH ROW EXECUTE FUNCTION public.protect_shop_stats();
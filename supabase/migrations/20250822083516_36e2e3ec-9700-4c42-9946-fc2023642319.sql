@@ -0,0 +1,95 @@
+-- Server-side nearby shop search.
+-- The customer dashboard used to download every active shop and sort by
+-- distance in the browser. nearby_shops filters by radius against a PostGIS
+-- index on the shop's coordinates and returns one page at a time, nearest
+-- first, with the shop's current queue summary. Shops without coordinates
+-- can't be placed and are left out.
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- Must match the expression in nearby_shops for the index to be used
+CREATE INDEX barber_shops_location_idx ON public.barber_shops USING gist (
+  (extensions.ST_SetSRID(extensions.ST_MakePoint(longitude::float8, latitude::float8), 4326)::extensions.geography)
+) WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- Output columns share names with barber_shops columns, so column references
+-- win over the OUT parameters.
+-- Raises one of: invalid_location, invalid_radius.
+CREATE OR REPLACE FUNCTION public.nearby_shops(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 10,
+  result_limit INTEGER DEFAULT 12,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  shop_name TEXT,
+  shop_address TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  services JSONB,
+  working_hours JSONB,
+  cover_image_url TEXT,
+  rating_avg NUMERIC,
+  total_reviews INTEGER,
+  total_bookings INTEGER,
+  distance_km DOUBLE PRECISION,
+  waiting_count INTEGER,
+  in_progress_count INTEGER,
+  estimated_wait_time INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY definer
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+  origin extensions.geography;
+BEGIN
+  IF lat IS NULL OR lng IS NULL OR lat NOT BETWEEN -90 AND 90 OR lng NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'invalid_location' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF radius_km IS NULL OR radius_km <= 0 OR radius_km > 100 THEN
+    RAISE EXCEPTION 'invalid_radius' USING ERRCODE = 'P0001';
+  END IF;
+
+  origin := extensions.ST_SetSRID(extensions.ST_MakePoint(lng, lat), 4326)::extensions.geography;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.shop_name,
+    s.shop_address,
+    s.latitude,
+    s.longitude,
+    s.services,
+    s.working_hours,
+    s.cover_image_url,
+    s.rating_avg,
+    s.total_reviews,
+    s.total_bookings,
+    extensions.ST_Distance(
+      extensions.ST_SetSRID(extensions.ST_MakePoint(s.longitude::float8, s.latitude::float8), 4326)::extensions.geography,
+      origin
+    ) / 1000 AS distance_km,
+    COALESCE(q.waiting_count, 0),
+    COALESCE(q.in_progress_count, 0),
+    COALESCE(q.estimated_wait_time, 0)
+  FROM public.barber_shops s
+  LEFT JOIN public.shop_queue_summary q ON q.shop_id = s.id
+  WHERE s.is_active = true
+    AND s.latitude IS NOT NULL
+    AND s.longitude IS NOT NULL
+    AND extensions.ST_DWithin(
+      extensions.ST_SetSRID(extensions.ST_MakePoint(s.longitude::float8, s.latitude::float8), 4326)::extensions.geography,
+      origin,
+      radius_km * 1000
+    )
+  ORDER BY distance_km, s.id
+  LIMIT LEAST(GREATEST(COALESCE(result_limit, 12), 1), 50)
+  OFFSET GREATEST(COALESCE(result_offset, 0), 0);
+END;
+$$;
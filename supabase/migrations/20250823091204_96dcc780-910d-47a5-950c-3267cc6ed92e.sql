@@ -0,0 +1,34 @@
+-- Shop coordinates.
+-- latitude/longitude are filled in by the geocode-shop edge function from the
+-- shop's address, or set by the barber dropping a pin in Shop Settings. The
+-- column types allow out-of-range values, so bound them here.
+ALTER TABLE public.barber_shops
+  ADD CONSTRAINT barber_shops_latitude_range CHECK (latitude BETWEEN -90 AND 90),
+  ADD CONSTRAINT barber_shops_longitude_range CHECK (longitude BETWEEN -180 AND 180);
+
+-- Set when the backfill couldn't find a shop's address, so later batches move
+-- on to other shops instead of retrying it. Cleared once the address changes
+-- or the shop gets coordinates (e.g. a pin dropped by the barber).
+ALTER TABLE public.barber_shops
+  ADD COLUMN geocode_failed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.handle_shop_location_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.geocode_failed_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_shop_geocode_failure
+  BEFORE UPDATE OF shop_address, latitude, longitude ON public.barber_shops
+  FOR EACH ROW
+  WHEN (
+    OLD.shop_address IS DISTINCT FROM NEW.shop_address
+    OR OLD.latitude IS DISTINCT FROM NEW.latitude
+    OR OLD.longitude IS DISTINCT FROM NEW.longitude
+  )
+  EXECUTE FUNCTION public.handle_shop_location_change();